@@ -1,47 +1,199 @@
-import type { AssistantEvents, AssistantOptions, StartMicOptions } from "./types";
-import { AssistantEvent, TARGET_SAMPLES } from "./types";
+import type {
+    AssistantEventDetailMap,
+    AssistantEventHandler,
+    AssistantEvents,
+    AssistantOptions,
+    AudioSource,
+    AuthCredentials,
+    BackpressureOptions,
+    ClientStats,
+    ConnectionQuality,
+    PipeFromOptions,
+    PushAudioOptions,
+    PushWavOptions,
+    QualityOptions,
+    ReconnectOptions,
+    ResumeOptions,
+    ServerMessageHandler,
+    SessionCallOptions,
+    SessionRecordingOptions,
+    SessionState,
+    StartMicOptions,
+    TranscribeOptions,
+    TranscriptionDetail,
+    TranscriptionsOptions,
+    WaitForOptions,
+} from "./types";
+import { AssistantEvent, TARGET_SAMPLE_RATE } from "./types";
 import { floatTo16BitPCM } from "./audio/floatTo16BitPCM";
+import { int16ToFloat32, StreamingDownmixer, StreamingResampler } from "./audio/resample";
+import { RingBuffer } from "./audio/ringBuffer";
+import { SessionRecorder } from "./audio/SessionRecorder";
+import { TranscriptManager } from "./TranscriptManager";
+import { RattSessionError } from "./errors";
+import { audioChunks } from "./utils/audioChunks";
+import { wavChunks } from "./audio/wavReader";
+import type { WavFormat } from "./audio/wavReader";
 import { ensureAudioContextAndWorklets } from "./audio/WorkletLoader";
 import { createWS } from "./utils/createWS";
-import { appendWords } from "./utils/appendWords";
+import { Logger } from "./utils/logger";
+import { QualityMonitor } from "./utils/quality";
+import { StatsTracker } from "./utils/stats";
+import { computeBackoffDelay, normalizeReconnect } from "./utils/backoff";
+import { encodeClientMessage, RattProtocolError, validateServerMessage } from "./protocol";
+import type { ClientMessage, ServerMessage } from "./protocol";
+import { acquireConnection, clearConnectionSocket, connectionKeyFor, peekConnection, releaseConnection } from "./utils/connectionRegistry";
+
+const SESSION_TRANSITIONS: Record<SessionState, readonly SessionState[]> = {
+    idle: ["connecting", "closed"],
+    connecting: ["awaiting-start", "idle", "closed"],
+    "awaiting-start": ["streaming", "resuming", "stopping", "idle", "closed"],
+    streaming: ["resuming", "stopping", "idle", "closed"],
+    resuming: ["streaming", "idle", "closed"],
+    stopping: ["idle", "closed"],
+    closed: ["idle", "connecting"],
+};
+
+type ResolvedOptions = Required<Omit<AssistantOptions, "reconnect" | "resume" | "quality" | "backpressure" | "recordSession" | "logger" | "deviceId">> & {
+    reconnect: Required<ReconnectOptions>;
+    quality: Required<QualityOptions>;
+    resume: Required<ResumeOptions>;
+    backpressure: Required<BackpressureOptions>;
+    recordSession: Required<SessionRecordingOptions>;
+};
+
+// readyState values; the global WebSocket may not exist yet in Node (createWS installs one on connect)
+const WS_CONNECTING = 0;
+const WS_OPEN = 1;
+
+// how long an auto-stopped utterance waits for the server's final transcript + disconnect
+const AUTO_STOP_TIMEOUT_MS = 5000;
+
+// close codes servers use to reject credentials after accepting the socket (policy violation + common 4xxx conventions)
+const AUTH_CLOSE_CODES = [1008, 4001, 4003, 4401, 4403];
+
+/** 401/403 from a refused handshake (Node's ws reports "Unexpected server response: 401"; browsers don't expose it). */
+function rejectedHandshakeStatus(err: any): number | null {
+    const message: string = err?.message ?? err?.error?.message ?? "";
+    const status = Number(/Unexpected server response: (\d{3})/.exec(message)?.[1]);
+    return status === 401 || status === 403 ? status : null;
+}
+
+type SampleChunk = { samples: Int16Array | Float32Array; sampleRate: number; channels: number };
+
+async function* pcmSamples(source: AudioSource, sampleRate = TARGET_SAMPLE_RATE, channels = 1): AsyncGenerator<SampleChunk> {
+    for await (const samples of audioChunks(source)) yield { samples, sampleRate, channels };
+}
+
+async function* wavSamples(source: AudioSource): AsyncGenerator<SampleChunk> {
+    for await (const { samples, format } of wavChunks(source)) yield { samples, sampleRate: format.sampleRate, channels: format.channels };
+}
+
+function normalizeRecording(input: SessionRecordingOptions | boolean | undefined): Required<SessionRecordingOptions> {
+    const o = typeof input === "object" ? input : { enabled: input === true };
+    return {
+        enabled: o.enabled ?? true,
+        maxRecordings: Math.max(1, o.maxRecordings ?? 10),
+        maxDurationMs: Math.max(1, o.maxDurationMs ?? 10 * 60 * 1000),
+    };
+}
+
+function normalizeResume(input: ResumeOptions | boolean | undefined): Required<ResumeOptions> {
+    const o = typeof input === "object" ? input : { enabled: input === true };
+    return {
+        enabled: o.enabled ?? true,
+        timeoutMs: Math.max(0, o.timeoutMs ?? 15000),
+        marker: o.marker ?? { resume: true },
+    };
+}
+
+function normalizeQuality(input: QualityOptions = {}): Required<QualityOptions> {
+    const degradedRttMs = Math.max(1, input.degradedRttMs ?? 500);
+    return {
+        degradedRttMs,
+        poorRttMs: Math.max(degradedRttMs, input.poorRttMs ?? 1500),
+        probeIntervalMs: Math.max(100, input.probeIntervalMs ?? 1000),
+    };
+}
+
+function normalizeBackpressure(input: BackpressureOptions = {}): Required<BackpressureOptions> {
+    const highWaterMark = Math.max(1, input.highWaterMark ?? 256 * 1024);
+    return {
+        highWaterMark,
+        lowWaterMark: Math.min(highWaterMark, Math.max(0, input.lowWaterMark ?? 64 * 1024)),
+        policy: input.policy ?? "pause",
+        maxBufferedMs: Math.max(1, input.maxBufferedMs ?? 30000),
+    };
+}
 
 /* ---------- class ---------- */
 export class AssistantClient extends EventTarget {
-    private opts: Required<AssistantOptions>;
+    private opts: ResolvedOptions;
+    private readonly log: Logger;
 
     // ws
     private ws: WebSocket | null = null;
     private cleanedUp = false;
     private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
-    private static ACTIVE_WS: WebSocket | null = null;
-    private static CONNECT_PROMISE: Promise<WebSocket> | null = null;
+    private reconnectAttempts = 0;
+    private resumeTimer: ReturnType<typeof setTimeout> | null = null; // ends a dropped utterance that isn't resumed in time
 
     // heartbeat
-    private heartbeatInterval: ReturnType<typeof setInterval> | null = null;
-    private missedPongs = 0;
+    private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+    private echoTimer: ReturnType<typeof setTimeout> | null = null; // flags a heartbeat not echoed within quality.poorRttMs
+    private heartbeat: QualityMonitor | null = null; // per socket, while heartbeating
+    private _quality: ConnectionQuality = "good";
+
+    // stats
+    private readonly stats = new StatsTracker();
+    private statsInterval: ReturnType<typeof setInterval> | null = null;
+    private startRequestedAt = 0;
 
     // audio
     private audioCtx: AudioContext | null = null;
     private recNode: AudioWorkletNode | null = null;
     private vadNode: AudioWorkletNode | null = null;
     private mediaStream: MediaStream | null = null;
+    private sourceNode: MediaStreamAudioSourceNode | null = null; // mic input feeding recNode/vadNode; swapped by setInputDevice()
+    private inputDeviceId: string | undefined;
+    private unwatchDevices: (() => void) | null = null;
+    private inputSwaps = 0; // bumped per swapInput(); a slower swap that finishes late is dropped
     private workletsLoaded = false;
 
+    // vad
+    private speechStartedAt: number | null = null;
+    private silenceTimer: ReturnType<typeof setTimeout> | null = null;
+    private silenceElapsed = false; // the silence ran out before start_audio; re-armed when the gate opens
+    private stopTimer: ReturnType<typeof setTimeout> | null = null; // wraps up an auto-stopped utterance the server never closes
+
     // sender
     private sendInterval: ReturnType<typeof setInterval> | null = null;
-    private rolling = new Float32Array(0);
-    private rollingPCM16 = new Int16Array(0);
+    // outgoing audio queues, preallocated to backpressure.maxBufferedMs (oldest audio is overwritten past it)
+    private rolling: RingBuffer<Float32Array>;
+    private rollingPCM16: RingBuffer<Int16Array>;
+    // bounded pre-roll while the gate is closed (prebuffering), see preRollMs
+    private preRoll: RingBuffer<Float32Array> | null = null;
+    private speechLatched = false; // VAD heard speech before start_audio; keep everything from here on
+    private sendPaused = false; // socket above highWaterMark, waiting to drain below lowWaterMark
+    private recorder: SessionRecorder | null = null; // set when recordSession is on
+    private failure: RattSessionError | null = null; // why the current session ended, for start()/finish()
+    private authRejection: RattSessionError | null = null; // handshake refused; reported when the socket closes
     private isRecording = false;
+    private _muted = false; // pause(): input is discarded, session stays up
+    private silenceFill: ReturnType<typeof setInterval> | null = null; // zero frames while paused (pauseMode "silence")
+    // one stateful resampler per input stream (only when input isn't 16 kHz)
+    private resamplers: { push: StreamingResampler | null; mic: StreamingResampler | null } = { push: null, mic: null };
+    // ...and downmixer (only when input isn't mono), which carries a partial frame over to the next chunk
+    private downmixers: { push: StreamingDownmixer | null; mic: StreamingDownmixer | null } = { push: null, mic: null };
 
     // public-ish mirrors
     private _wsReady = false;
-    private _micOpen = false;
-    private _micConnecting = false;
+    private _state: SessionState = "idle";
     private _amplitude = 0;
     private _transcription = "";
+    private _transcript: TranscriptManager;
 
     // refs
-    private isMsgSended = false;
     private userText = "";
 
     // per-instance bound handlers
@@ -50,32 +202,39 @@ export class AssistantClient extends EventTarget {
     private boundOnClose?: (e: CloseEvent) => void;
     private boundOnMessage?: (e: MessageEvent) => void;
 
+    // custom server message handlers, keyed by message kind
+    private messageHandlers = new Map<string, Set<ServerMessageHandler>>();
+
     // which socket our bound handlers are currently attached to
     private handlerSocket: WebSocket | null = null;
-    // prebuffering / gating
-    private canSendAudio = false; // becomes true after server start_audio
 
     constructor(options: AssistantOptions) {
         super();
         const isNode = typeof window === "undefined" || typeof (globalThis as any).document === "undefined";
+        const frameDurationMs = Math.max(10, options.frameDurationMs ?? 1000);
+        this.log = new Logger(options.logger, options.rattAgentDetails);
+        this.inputDeviceId = options.deviceId;
         // normalize options (no undefined anywhere after this)
         this.opts = {
             url: options.url,
+            connectionKey: connectionKeyFor(options.connectionKey ?? options.url, options.auth),
             onSend: options.onSend ?? (() => {}),
             rattAgentDetails: options.rattAgentDetails ?? {},
             requestId: options.requestId,
             showToast: options.showToast ?? (() => {}),
             pingIntervalMs: options.pingIntervalMs ?? 5000,
             maxMissedPongs: options.maxMissedPongs ?? 2,
+            quality: normalizeQuality(options.quality),
             workletBasePath: options.workletBasePath ?? "/",
             // injectable providers so lib works in any env (system audio, etc.)
             mediaStreamProvider:
                 options.mediaStreamProvider ??
-                (async () => {
+                (async (deviceId?: string) => {
                     // If someone tries to use it in Node by accident, just throw a clear error
                     if (isNode) throw new Error("mediaStreamProvider not available in Node. Use externalAudio + pushPCM16().");
                     return navigator.mediaDevices.getUserMedia({
                         audio: {
+                            ...(deviceId && { deviceId: { exact: deviceId } }),
                             channelCount: { ideal: 1 },
                             sampleRate: { ideal: 16000 },
                             sampleSize: { ideal: 16 },
@@ -94,16 +253,41 @@ export class AssistantClient extends EventTarget {
                 options.workletLoader ??
                 (async (base: string) => {
                     if (isNode) return null as any;
-                    return ensureAudioContextAndWorklets(base);
+                    return ensureAudioContextAndWorklets(base, this.log);
                 }),
             externalAudio: isNode ? options.externalAudio ?? true : options.externalAudio ?? false,
             externalAmplitudeRms: options.externalAmplitudeRms ?? true,
-            pcmChunkSize: options.pcmChunkSize ?? TARGET_SAMPLES,
+            frameDurationMs,
+            pcmChunkSize: options.pcmChunkSize ?? Math.round((frameDurationMs * TARGET_SAMPLE_RATE) / 1000),
+            reconnect: normalizeReconnect(options.reconnect),
+            resume: normalizeResume(options.resume),
+            vad: options.vad ?? {},
+            autoStopOnSilenceMs: options.autoStopOnSilenceMs ?? 0,
+            preRollMs: options.preRollMs ?? 1500,
+            pauseMode: options.pauseMode ?? "stop",
+            statsIntervalMs: Math.max(0, options.statsIntervalMs ?? 0),
+            backpressure: normalizeBackpressure(options.backpressure),
+            recordSession: normalizeRecording(options.recordSession),
+            transcript: options.transcript ?? {},
+            auth: options.auth ?? (() => undefined),
         };
+        if (this.opts.recordSession.enabled) this.recorder = new SessionRecorder(this.opts.recordSession);
+        this._transcript = new TranscriptManager(this.opts.transcript, (text, delta, final) => {
+            this._transcription = text;
+            this.userText = text;
+            this.emit(AssistantEvent.TRANSCRIPTION, { text, delta, final });
+        });
+
+        // never smaller than one outgoing frame, or a frame could never fill
+        const queueSamples = Math.max(Math.round((this.opts.backpressure.maxBufferedMs * TARGET_SAMPLE_RATE) / 1000), this.opts.pcmChunkSize, this.frameSamples);
+        this.rolling = new RingBuffer(Float32Array, queueSamples);
+        this.rollingPCM16 = new RingBuffer(Int16Array, queueSamples);
 
-        // adopt existing socket (StrictMode-safe)
-        if (AssistantClient.ACTIVE_WS?.readyState === WebSocket.OPEN) {
-            this.ws = AssistantClient.ACTIVE_WS;
+        // adopt existing socket for the same endpoint (StrictMode-safe)
+        const shared = peekConnection(this.opts.connectionKey);
+        if (shared?.socket?.readyState === WS_OPEN) {
+            acquireConnection(this.opts.connectionKey, this);
+            this.ws = shared.socket;
             this.attachSocketHandlers(this.ws);
             this._wsReady = true;
             queueMicrotask(() => this.emit(AssistantEvent.READY));
@@ -112,45 +296,64 @@ export class AssistantClient extends EventTarget {
 
     /* ---------- public getters ---------- */
     get wsReady() {
-        return this._wsReady || this.ws?.readyState === WebSocket.OPEN;
+        return this._wsReady || this.ws?.readyState === WS_OPEN;
     }
     get micOpen() {
-        return this._micOpen;
+        return this._state === "streaming";
     }
     get micConnecting() {
-        return this._micConnecting;
+        return this._state === "connecting" || this._state === "awaiting-start";
+    }
+    /** where the current session is: idle → connecting → awaiting-start → streaming (⇄ resuming) → stopping → idle, or closed */
+    get state(): SessionState {
+        return this._state;
     }
     get amplitude() {
         return this._amplitude;
     }
+    /** link health from smoothed heartbeat round trips, for the current (or last) socket */
+    get connectionQuality(): ConnectionQuality {
+        return this._quality;
+    }
+    /** true between pause() and resume() */
+    get muted() {
+        return this._muted;
+    }
     get transcription() {
         return this._transcription;
     }
+    /** interim/final segments per requestId and the session's transcript history */
+    get transcript() {
+        return this._transcript;
+    }
 
     /** Start capturing mic immediately, buffer locally, do NOT send yet. */
     public async beginPrebuffering(): Promise<void> {
         if (this.isRecording) return; // already recording (idempotent)
         if (!this.workletsLoaded && !this.opts.externalAudio) await this.preloadWorklets();
 
-        this.canSendAudio = false; // gate closed
-        await this.startRecording(); // start capture, but do NOT create sender yet
+        await this.startRecording(); // start capture; audio stays local until start_audio opens the gate
     }
 
     /** Stop prebuffering and clear any buffered audio. */
     public stopPrebuffering(): void {
-        this.canSendAudio = false;
-        this.rolling = new Float32Array(0); // drop buffered audio
+        this.rolling.clear(); // drop buffered audio
         this.stopRecording();
     }
 
-    /** Push 16kHz 16-bit mono PCM (LE). Works in any env. */
-    public pushPCM16(chunk: Buffer | Int16Array) {
-        const view = chunk instanceof Int16Array ? chunk : new Int16Array(chunk.buffer, chunk.byteOffset, chunk.byteLength / 2);
-        // concat into rollingPCM16
-        const merged = new Int16Array(this.rollingPCM16.length + view.length);
-        merged.set(this.rollingPCM16);
-        merged.set(view, this.rollingPCM16.length);
-        this.rollingPCM16 = merged;
+    /** Push 16-bit PCM (LE). 16kHz mono unless `sampleRate`/`channels` say otherwise. Works in any env. */
+    public pushPCM16(chunk: Buffer | Int16Array, { sampleRate = TARGET_SAMPLE_RATE, channels = 1 }: PushAudioOptions = {}) {
+        if (this._muted) return;
+        let view = chunk instanceof Int16Array ? chunk : new Int16Array(chunk.buffer, chunk.byteOffset, chunk.byteLength / 2);
+        if (sampleRate !== TARGET_SAMPLE_RATE || channels !== 1) {
+            view = floatTo16BitPCM(this.conform(int16ToFloat32(view), sampleRate, channels, "push"));
+        }
+        // feed the bounded queue a frame at a time so a big push goes out instead of overwriting itself
+        const step = this.opts.pcmChunkSize;
+        for (let offset = 0; offset < view.length; offset += step) {
+            this.appendRollingPCM16(view.subarray(offset, offset + step));
+            this.flushBufferedAudio();
+        }
         // optional amplitude from PCM16 (RMS)
         if (this.opts.externalAmplitudeRms) {
             let sum = 0;
@@ -167,7 +370,11 @@ export class AssistantClient extends EventTarget {
     }
 
     /** Convenience: push Float32 samples ([-1,1]) and convert to PCM16. */
-    public pushFloat32(chunk: Float32Array) {
+    public pushFloat32(chunk: Float32Array, { sampleRate = TARGET_SAMPLE_RATE, channels = 1 }: PushAudioOptions = {}) {
+        if (this._muted) return;
+        if (sampleRate !== TARGET_SAMPLE_RATE || channels !== 1) {
+            chunk = this.conform(chunk, sampleRate, channels, "push");
+        }
         // convert without allocating twice
         const pcm = new Int16Array(chunk.length);
         for (let i = 0; i < chunk.length; i++) {
@@ -177,19 +384,83 @@ export class AssistantClient extends EventTarget {
         this.pushPCM16(pcm);
     }
 
+    /* ---------- stats ---------- */
+    /** Timings and counters for the current utterance and socket, plus recent history. */
+    public getStats(): ClientStats {
+        return {
+            at: Date.now(),
+            state: this._state,
+            quality: this._quality,
+            reconnects: this.stats.reconnects,
+            bufferedMs: ((this.rolling.length + this.rollingPCM16.length) * 1000) / TARGET_SAMPLE_RATE,
+            socketBufferedBytes: this.ws?.bufferedAmount ?? 0,
+            ...this.stats.snapshot(),
+        };
+    }
+
+    /* ---------- session recording ---------- */
+    /**
+     * WAV (16 kHz mono PCM16) of exactly what was sent for `requestId` (default:
+     * the current one): a Blob in browsers, a Buffer in Node. Null when
+     * recordSession is off or nothing was recorded for it.
+     */
+    public getRecording(requestId: string = this.opts.requestId.current): Blob | Buffer | null {
+        const wav = this.recorder?.toWav(requestId);
+        if (!wav) return null;
+        const isNode = typeof window === "undefined" && typeof Buffer !== "undefined";
+        return isNode ? Buffer.from(wav.buffer, wav.byteOffset, wav.byteLength) : new Blob([wav.buffer as ArrayBuffer], { type: "audio/wav" });
+    }
+
+    /** requestIds that currently have a recording, oldest first. */
+    public listRecordings(): string[] {
+        return this.recorder?.ids() ?? [];
+    }
+
+    /** Drop one recording, or all of them. */
+    public clearRecordings(requestId?: string) {
+        this.recorder?.clear(requestId);
+    }
+
+    /** Audio inputs the browser can capture from. Labels are empty until mic permission has been granted. */
+    static async listInputDevices(): Promise<MediaDeviceInfo[]> {
+        if (typeof navigator === "undefined" || !navigator.mediaDevices?.enumerateDevices) {
+            throw new RattSessionError("unsupported", "device enumeration is not available in this environment");
+        }
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        return devices.filter((d) => d.kind === "audioinput");
+    }
+
+    /**
+     * Capture from another microphone. While recording, the new source is
+     * swapped in front of the worklets, so the socket and the utterance carry
+     * on; otherwise it applies from the next start. If the new device can't be
+     * opened this rejects and the current one keeps running.
+     */
+    public async setInputDevice(deviceId: string): Promise<void> {
+        if (this.opts.externalAudio) throw new RattSessionError("unsupported", "setInputDevice() needs the mic path (externalAudio is on)");
+        this.inputDeviceId = deviceId;
+        await this.swapInput(deviceId);
+    }
+
     /* ---------- connection ---------- */
     async connect(): Promise<void> {
-        // reuse ACTIVE or CONNECTING
-        if (AssistantClient.ACTIVE_WS) {
-            this.ws = AssistantClient.ACTIVE_WS;
+        if (this._state === "closed") this.transition("idle");
+        // before the reuse paths too, or closeSocket() would leave reconnect and resume off for good
+        this.clearReconnect();
+        this.cleanedUp = false;
+        const shared = acquireConnection(this.opts.connectionKey, this);
+
+        // reuse ACTIVE or CONNECTING socket for this endpoint
+        if (shared.socket) {
+            this.ws = shared.socket;
             this.attachSocketHandlers(this.ws);
 
-            if (this.ws.readyState === WebSocket.OPEN) {
+            if (this.ws.readyState === WS_OPEN) {
                 this._wsReady = true;
                 this.emit(AssistantEvent.READY);
                 return;
             }
-            if (this.ws.readyState === WebSocket.CONNECTING) {
+            if (this.ws.readyState === WS_CONNECTING) {
                 await this.waitForOpen(this.ws);
                 this._wsReady = true;
                 this.emit(AssistantEvent.READY);
@@ -198,26 +469,29 @@ export class AssistantClient extends EventTarget {
         }
 
         // await a single-flight connect
-        if (AssistantClient.CONNECT_PROMISE) {
-            this.ws = await AssistantClient.CONNECT_PROMISE;
+        if (shared.connecting) {
+            this.ws = await shared.connecting;
             this.attachSocketHandlers(this.ws);
-            if (this.ws.readyState !== WebSocket.OPEN) await this.waitForOpen(this.ws);
+            if (this.ws.readyState !== WS_OPEN) await this.waitForOpen(this.ws);
             this._wsReady = true;
             this.emit(AssistantEvent.READY);
             return;
         }
 
-        this.clearReconnect();
-        this.cleanedUp = false;
-
         // single-flight connect: resolves after OPEN
-        AssistantClient.CONNECT_PROMISE = (async () => {
-            const socket = await createWS(this.opts.url);
-            AssistantClient.ACTIVE_WS = socket;
+        shared.connecting = (async () => {
+            const { url, nodeOptions } = await this.resolveAuth();
+            const socket = await createWS(url, nodeOptions, this.log);
+            shared.socket = socket;
             this.ws = socket;
             this.attachSocketHandlers(socket);
 
-            await this.waitForOpen(socket);
+            try {
+                await this.waitForOpen(socket);
+            } catch (err) {
+                const status = rejectedHandshakeStatus(err);
+                throw status ? new RattSessionError("auth-failed", `handshake rejected (HTTP ${status})`, err) : err;
+            }
             this._wsReady = true;
             this.emit(AssistantEvent.READY);
             try {
@@ -229,16 +503,14 @@ export class AssistantClient extends EventTarget {
         })();
 
         try {
-            this.ws = await AssistantClient.CONNECT_PROMISE;
+            this.ws = await shared.connecting;
         } finally {
-            AssistantClient.CONNECT_PROMISE = null;
+            shared.connecting = null;
         }
     }
 
-    /** close the ratt agent (teardown mic etc). Does not forcibly close WS. */
+    /** close the ratt agent (teardown mic etc). Does not forcibly close WS; it keeps reconnecting until closeSocket(). */
     disconnect() {
-        this.cleanedUp = true;
-        this.clearReconnect();
         this.clientDisconnect();
     }
 
@@ -247,8 +519,208 @@ export class AssistantClient extends EventTarget {
     }
 
     /* ---------- session ---------- */
+    /** Toggle: start a session when idle, cancel it while connecting, stop it while streaming. */
     async startSession(): Promise<void> {
-        if (this.ws?.readyState === WebSocket.CONNECTING) return;
+        if (this.ws?.readyState === WS_CONNECTING) return;
+
+        switch (this._state) {
+            case "connecting":
+            case "awaiting-start":
+            case "resuming":
+                this.cancelPending(); // toggle off if mid-connect
+                return;
+            case "streaming":
+                this.disconnect(); // currently open -> toggle off
+                return;
+            case "stopping":
+                this.localTeardown(); // server is wrapping up the last one; close it out and start fresh
+                break;
+        }
+        // errors are reported through ERROR events / showToast here; use start() to get a rejection
+        await this.start().catch(() => {});
+    }
+
+    /**
+     * Start a session: send details with a fresh requestId and resolve once the
+     * server answers with start_audio (right away if already streaming). Rejects
+     * with a RattSessionError on server error, socket close, timeout, abort or cancel.
+     */
+    async start({ timeoutMs, signal }: SessionCallOptions = {}): Promise<void> {
+        if (this._state === "streaming") return;
+        if (this._state === "stopping") throw new RattSessionError("cancelled", "previous utterance is still stopping");
+
+        const started = this.waitForSessionState("streaming", { timeoutMs, signal });
+        if ((this._state === "idle" || this._state === "closed") && !signal?.aborted) {
+            this.failure = null;
+            void this.requestStart();
+        }
+        return started;
+    }
+
+    /**
+     * End the utterance and resolve with its final transcript once the server
+     * wraps up (`disconnect`). If it hasn't within `timeoutMs` (default 5000) the
+     * session is torn down locally and whatever arrived is returned.
+     */
+    async finish({ timeoutMs = 5000, signal }: SessionCallOptions = {}): Promise<string> {
+        switch (this._state) {
+            case "idle":
+            case "closed":
+                return this._transcription;
+            case "connecting":
+            case "awaiting-start":
+                this.cancelPending(); // nothing was streamed yet
+                return this._transcription;
+            case "resuming":
+                // the socket is coming back: wait, so the audio buffered meanwhile still goes out
+                try {
+                    await this.waitForSessionState("streaming", { timeoutMs, signal });
+                } catch (err) {
+                    if (!(err instanceof RattSessionError && err.code === "timeout")) throw err;
+                    return this._transcription;
+                }
+        }
+
+        this.failure = null;
+        const done = this.waitForSessionState("idle", { signal });
+        const timer = setTimeout(() => this.localTeardown(), timeoutMs);
+        if (this._state === "streaming") {
+            this.flushBufferedAudio(true);
+            this.stopRecording(); // -> stopping
+            if (this.ws && this.ws.readyState === WS_OPEN) this.sendMessage({ type: "disconnect" });
+        }
+        try {
+            await done;
+        } finally {
+            clearTimeout(timer);
+        }
+        return this._transcription;
+    }
+
+    /**
+     * One-shot: start(), push `source` (see pipeFrom) respecting backpressure,
+     * then finish(). Needs externalAudio.
+     */
+    async transcribe(source: AudioSource, opts: TranscribeOptions = {}): Promise<string> {
+        return this.pipeFrom(source, { ...opts, end: true });
+    }
+
+    /**
+     * Stream audio from a Node Readable, a WHATWG ReadableStream or any (async)
+     * iterable of PCM chunks (raw bytes are PCM16 LE, or a WAV file with
+     * `format: "wav"`). Starts the session if needed, only pulls the next chunk
+     * once backpressure allows, and unless `end: false` finishes the utterance
+     * when the source ends. Resolves with the transcript. Needs externalAudio.
+     */
+    async pipeFrom(source: AudioSource, { sampleRate, channels, timeoutMs, signal, end = true, format = "pcm", realtime = false }: PipeFromOptions = {}): Promise<string> {
+        if (!this.opts.externalAudio) throw new RattSessionError("unsupported", "pipeFrom()/transcribe() need externalAudio: true");
+        await this.start({ timeoutMs, signal });
+
+        const chunks = format === "wav" ? wavSamples(source) : pcmSamples(source, sampleRate, channels);
+        try {
+            await this.feed(chunks, { realtime, signal, untilStopped: true });
+        } catch (err) {
+            if (err instanceof RattSessionError && err.code === "aborted") this.stop();
+            throw err;
+        }
+        if (this._state !== "streaming" && this.failure) throw this.failure; // server error / socket closed mid-stream
+        return end ? this.finish({ timeoutMs, signal }) : this._transcription;
+    }
+
+    /**
+     * Push a WAV file (a whole buffer or a byte stream) into the current
+     * session. Any rate, channel count and 8/16/24/32-bit int or 32/64-bit
+     * float encoding is converted to 16 kHz mono PCM16. Resolves with the
+     * file's format once everything is queued. Works in any env.
+     */
+    async pushWav(source: AudioSource, { realtime = false, signal }: PushWavOptions = {}): Promise<WavFormat | null> {
+        let format: WavFormat | null = null;
+        const chunks = async function* () {
+            for await (const chunk of wavChunks(source)) {
+                format = chunk.format;
+                yield { samples: chunk.samples, sampleRate: chunk.format.sampleRate, channels: chunk.format.channels };
+            }
+        };
+        await this.feed(chunks(), { realtime, signal, untilStopped: false });
+        return format;
+    }
+
+    /**
+     * Push decoded chunks a frame at a time, waiting for backpressure and (when
+     * `realtime`) for the wall clock to catch up with the audio sent.
+     */
+    private async feed(
+        chunks: AsyncIterable<SampleChunk>,
+        { realtime, signal, untilStopped }: { realtime: boolean; signal?: AbortSignal; untilStopped: boolean },
+    ): Promise<void> {
+        const startedAt = Date.now();
+        let sentMs = 0;
+        for await (const { samples, sampleRate, channels } of chunks) {
+            const step = Math.max(1, Math.round((this.opts.frameDurationMs * sampleRate) / 1000)) * channels;
+            for (let offset = 0; offset < samples.length; offset += step) {
+                if (signal?.aborted) throw new RattSessionError("aborted", "pushing audio was aborted", signal.reason);
+                if (untilStopped && this._state !== "streaming" && this._state !== "resuming") return; // server ended it early
+
+                const piece = samples.subarray(offset, offset + step);
+                await this.waitForQueueRoom(Math.ceil(((piece.length / channels) * TARGET_SAMPLE_RATE) / sampleRate), signal);
+                if (piece instanceof Float32Array) this.pushFloat32(piece, { sampleRate, channels });
+                else this.pushPCM16(piece, { sampleRate, channels });
+
+                if (realtime) {
+                    sentMs += (piece.length / channels / sampleRate) * 1000;
+                    const wait = startedAt + sentMs - Date.now();
+                    if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+                }
+                await this.waitForDrain();
+            }
+        }
+    }
+
+    /**
+     * Transcript updates as an async iterable (`for await`, `Readable.from()`).
+     * Listening starts on call; iteration ends on break, abort or closeSocket().
+     */
+    transcriptions({ signal }: TranscriptionsOptions = {}): AsyncIterableIterator<TranscriptionDetail> {
+        const queue: TranscriptionDetail[] = [];
+        let done = false;
+        let wake: (() => void) | null = null;
+        const notify = () => {
+            wake?.();
+            wake = null;
+        };
+        const stop = () => {
+            done = true;
+            notify();
+        };
+        const offText = this.on(AssistantEvent.TRANSCRIPTION, ({ detail }) => {
+            queue.push(detail);
+            notify();
+        });
+        const offState = this.on(AssistantEvent.STATE_CHANGE, ({ detail }) => detail.next === "closed" && stop());
+        if (signal?.aborted) stop();
+        signal?.addEventListener("abort", stop, { once: true });
+
+        return (async function* () {
+            try {
+                while (true) {
+                    if (queue.length) yield queue.shift()!;
+                    else if (done) return;
+                    else await new Promise<void>((resolve) => (wake = resolve));
+                }
+            } finally {
+                offText();
+                offState();
+                signal?.removeEventListener("abort", stop);
+            }
+        })();
+    }
+
+    /** Body of start(): outcome is reported through state changes (+ this.failure). */
+    private async requestStart(): Promise<void> {
+        if (!this.transition("connecting")) return;
+        this.startRequestedAt = Date.now();
+        this.emit(AssistantEvent.MIC_CONNECTING, { connecting: true });
+
         // ensure worklets loaded
         if (!this.workletsLoaded && !this.opts.externalAudio) {
             try {
@@ -256,58 +728,142 @@ export class AssistantClient extends EventTarget {
             } catch (error) {
                 this.emit(AssistantEvent.ERROR, { error });
                 this.opts.showToast("error", "Audio Error", "Failed to initialize audio modules. Please reload the page.");
+                this.failure = new RattSessionError("start-failed", "failed to initialize audio modules", error);
+                if (this.transition("idle")) this.emit(AssistantEvent.MIC_CONNECTING, { connecting: false });
                 return;
             }
         }
 
-        // toggle off if mid-connect
-        if (this._micConnecting) {
-            this.ws?.send(JSON.stringify({ disconnect: true }));
-            this._micConnecting = false;
-            this.isMsgSended = false;
-            this.emit(AssistantEvent.MIC_CONNECTING, { connecting: false });
-            this.stopRecording();
-            return;
+        try {
+            // ask early for mic (or custom provider may throw)
+            if (!this.opts.externalAudio) {
+                const test = await this.opts.mediaStreamProvider(this.inputDeviceId);
+                test.getTracks().forEach((t) => t.stop());
+            }
+            if (!this.ws || this.ws.readyState !== WS_OPEN) {
+                await this.connect();
+            }
+            if ((this._state as SessionState) !== "connecting") return; // cancelled while we were waiting
+
+            const newReqId = `requestId-${(crypto.randomUUID?.() ?? Date.now()).toString()}`;
+            this.opts.requestId.current = newReqId;
+            this.stats.beginRequest(newReqId, this.startRequestedAt);
+
+            const details = { ...this.opts.rattAgentDetails, requestId: newReqId };
+
+            this._transcript.begin(newReqId);
+            this.log.watchDetails(this.opts.rattAgentDetails);
+            this.log.debug("sending details", details);
+            this.sendMessage({ type: "details", details });
+            this.transition("awaiting-start");
+        } catch (err: any) {
+            if (err?.name === "NotAllowedError") {
+                this.emit(AssistantEvent.ERROR, { error: "Microphone access is blocked. Please enable it in your browser settings." });
+                this.opts.showToast("error", "Mic Disabled", "Microphone access is blocked. Please enable it in your browser settings.");
+            } else {
+                this.emit(AssistantEvent.ERROR, { error: err });
+                this.opts.showToast("error", "Error", "Something failed, Please try again.");
+            }
+            this.failure = err instanceof RattSessionError ? err : new RattSessionError("start-failed", "could not start the session", err);
+            if (this.transition("idle")) this.emit(AssistantEvent.MIC_CONNECTING, { connecting: false });
         }
+    }
 
-        if (!this._micOpen) {
-            this._micConnecting = true;
-            this.emit(AssistantEvent.MIC_CONNECTING, { connecting: true });
-            try {
-                // ask early for mic (or custom provider may throw)
-                if (!this.opts.externalAudio) {
-                    const test = await this.opts.mediaStreamProvider();
-                    test.getTracks().forEach((t) => t.stop());
-                }
-                if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-                    await this.connect();
+    /**
+     * Resolve when the session reaches `target`. Waiting for "streaming" fails if
+     * the session ends first; waiting for "idle" fails if it ended on an error.
+     * On timeout/abort the session is stopped and the promise rejects.
+     */
+    private waitForSessionState(target: "streaming" | "idle", { timeoutMs, signal }: SessionCallOptions): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            let timer: ReturnType<typeof setTimeout> | null = null;
+            const cleanup = () => {
+                off();
+                if (timer) clearTimeout(timer);
+                signal?.removeEventListener("abort", onAbort);
+            };
+            const fail = (error: RattSessionError) => {
+                cleanup();
+                reject(error);
+            };
+            const giveUp = (error: RattSessionError) => {
+                fail(error);
+                if (target === "streaming") this.stop();
+                else this.localTeardown();
+            };
+            const onAbort = () => giveUp(new RattSessionError("aborted", `aborted while waiting for ${target}`, signal?.reason));
+
+            const off = this.on(AssistantEvent.STATE_CHANGE, ({ detail }) => {
+                const ended = detail.next === "idle" || detail.next === "closed";
+                if (detail.next === target && !(ended && this.failure)) {
+                    cleanup();
+                    resolve();
+                } else if (ended) {
+                    fail(this.failure ?? new RattSessionError("cancelled", `session ended before ${target}`));
                 }
+            });
 
-                this.isMsgSended = true;
-                const newReqId = `requestId-${(crypto.randomUUID?.() ?? Date.now()).toString()}`;
-                this.opts.requestId.current = newReqId;
-
-                const details = { ...this.opts.rattAgentDetails, requestId: newReqId };
-
-                this.userText = "";
-                this._transcription = "";
-                this.emit(AssistantEvent.TRANSCRIPTION, { text: "" });
-                this.ws?.send(JSON.stringify(details));
-            } catch (err: any) {
-                this.isMsgSended = false;
-                if (err?.name === "NotAllowedError") {
-                    this.emit(AssistantEvent.ERROR, { error: "Microphone access is blocked. Please enable it in your browser settings." });
-                    this.opts.showToast("error", "Mic Disabled", "Microphone access is blocked. Please enable it in your browser settings.");
-                } else {
-                    this.emit(AssistantEvent.ERROR, { err });
-                    this.opts.showToast("error", "Error", "Something failed, Please try again.");
-                }
-                this._micConnecting = false;
-                this.emit(AssistantEvent.MIC_CONNECTING, { connecting: false });
+            if (signal?.aborted) return onAbort();
+            signal?.addEventListener("abort", onAbort, { once: true });
+            if (timeoutMs != null) {
+                timer = setTimeout(() => giveUp(new RattSessionError("timeout", `timed out after ${timeoutMs}ms waiting for ${target}`)), timeoutMs);
+            }
+        });
+    }
+
+    /** Resolves once sending isn't paused by backpressure or a resume (or the session has ended). */
+    private waitForDrain(): Promise<void> {
+        const held = () => this._state === "resuming" || (this.sendPaused && this._state === "streaming");
+        if (!held()) return Promise.resolve();
+        return new Promise<void>((resolve) => {
+            const check = () => {
+                if (held()) return;
+                offBp();
+                offState();
+                resolve();
+            };
+            const offBp = this.on(AssistantEvent.BACKPRESSURE, check);
+            const offState = this.on(AssistantEvent.STATE_CHANGE, check);
+        });
+    }
+
+    /**
+     * Until start_audio nothing drains the send queue, so a long file would overwrite
+     * its own head: wait for the session to start (or end) instead. With no session
+     * on the way that wait would never end; reject with "backpressure".
+     */
+    private async waitForQueueRoom(samples: number, signal?: AbortSignal): Promise<void> {
+        const queue = this.rollingPCM16;
+        while (!this.gateOpen && queue.length + samples > queue.capacity) {
+            if (this._state === "idle") {
+                throw new RattSessionError("backpressure", `send queue is full (${this.opts.backpressure.maxBufferedMs}ms) and no session is starting; call start() first`);
             }
-        } else {
-            // currently open -> toggle off
-            this.disconnect();
+            if (this._state !== "connecting" && this._state !== "awaiting-start") return;
+            await new Promise<void>((resolve) => {
+                const done = () => {
+                    offState();
+                    signal?.removeEventListener("abort", done);
+                    resolve();
+                };
+                const offState = this.on(AssistantEvent.STATE_CHANGE, done);
+                signal?.addEventListener("abort", done, { once: true });
+            });
+            if (signal?.aborted) throw new RattSessionError("aborted", "pushing audio was aborted", signal.reason);
+        }
+    }
+
+    /** Stop the current session (no-op when idle): cancels a pending start or ends the utterance. */
+    stop() {
+        switch (this._state) {
+            case "connecting":
+            case "awaiting-start":
+            case "resuming":
+                this.cancelPending();
+                return;
+            case "streaming":
+            case "stopping":
+                this.disconnect();
+                return;
         }
     }
 
@@ -321,7 +877,6 @@ export class AssistantClient extends EventTarget {
     }
 
     async stopAudio() {
-        this.isMsgSended = false;
         this.disconnect();
     }
 
@@ -330,87 +885,211 @@ export class AssistantClient extends EventTarget {
         await this.startRecording();
     }
     stopMic() {
+        this.flushBufferedAudio(true);
         this.stopRecording();
-        if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-            this.ws.send(JSON.stringify({ disconnect: true }));
+        if (this.ws && this.ws.readyState === WS_OPEN) {
+            this.sendMessage({ type: "disconnect" });
         }
     }
 
+    /**
+     * Mute without ending anything: the socket, requestId and server utterance
+     * stay up, and audio captured or pushed until resume() is discarded. With
+     * `pauseMode: "silence"` zero frames keep going out while streaming, for
+     * servers that time out on a quiet socket. Stays in effect across sessions.
+     */
+    pause() {
+        if (this._muted) return;
+        if (!this.sendPaused) this.flushBufferedAudio(true); // what was said before the mute still goes out
+        this._muted = true;
+        this.clearSilenceTimer();
+        if (this.speechStartedAt !== null) {
+            this.emit(AssistantEvent.SPEECH_END, { durationMs: Date.now() - this.speechStartedAt, misfire: false });
+            this.speechStartedAt = null;
+        }
+        this.setAmplitude(0);
+        this.syncSilenceFill();
+        this.emit(AssistantEvent.MUTE_CHANGE, { muted: true });
+    }
+
+    /** Undo pause(): audio flows again on the same session. */
+    resume() {
+        if (!this._muted) return;
+        this._muted = false;
+        this.syncSilenceFill();
+        this.emit(AssistantEvent.MUTE_CHANGE, { muted: false });
+    }
+
     /* ---------- DOM-style listener ---------- */
-    on(event: AssistantEvents, handler: (e: any) => void) {
+    on<K extends AssistantEvents>(event: K, handler: AssistantEventHandler<K>) {
         this.addEventListener(event, handler as EventListener);
-        return () => this.removeEventListener(event, handler as EventListener);
+        return () => this.off(event, handler);
+    }
+
+    /** Like on(), but the handler runs at most once. */
+    once<K extends AssistantEvents>(event: K, handler: AssistantEventHandler<K>) {
+        this.addEventListener(event, handler as EventListener, { once: true });
+        return () => this.off(event, handler);
+    }
+
+    off<K extends AssistantEvents>(event: K, handler: AssistantEventHandler<K>) {
+        this.removeEventListener(event, handler as EventListener);
+    }
+
+    /** Resolve with the detail of the next `event`; rejects on timeout or abort. */
+    waitFor<K extends AssistantEvents>(event: K, { timeout, signal }: WaitForOptions = {}): Promise<AssistantEventDetailMap[K]> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(signal.reason ?? new DOMException("Aborted", "AbortError"));
+                return;
+            }
+            let timer: ReturnType<typeof setTimeout> | null = null;
+            const cleanup = () => {
+                unsubscribe();
+                if (timer) clearTimeout(timer);
+                signal?.removeEventListener("abort", onAbort);
+            };
+            const onAbort = () => {
+                cleanup();
+                reject(signal?.reason ?? new DOMException("Aborted", "AbortError"));
+            };
+            const unsubscribe = this.once(event, (e) => {
+                cleanup();
+                resolve(e.detail);
+            });
+            if (timeout != null) {
+                timer = setTimeout(() => {
+                    cleanup();
+                    reject(new RattSessionError("timeout", `timed out after ${timeout}ms waiting for "${event}"`));
+                }, timeout);
+            }
+            signal?.addEventListener("abort", onAbort, { once: true });
+        });
+    }
+
+    /**
+     * Handle custom server messages the built-in protocol doesn't know about.
+     * `kind` matches the frame's `type` field, or its first key (`{ my_event: {...} }`).
+     * Frames with a registered handler no longer emit UNKNOWN_MESSAGE.
+     */
+    onServerMessage(kind: string, handler: ServerMessageHandler) {
+        let set = this.messageHandlers.get(kind);
+        if (!set) {
+            set = new Set();
+            this.messageHandlers.set(kind, set);
+        }
+        set.add(handler);
+        return () => {
+            set!.delete(handler);
+            if (!set!.size) this.messageHandlers.delete(kind);
+        };
     }
 
     /* ---------- WS handlers ---------- */
     private handleWSMessage = (evt: MessageEvent) => {
         let parsed: any | undefined = undefined;
+        let parseFailed = false;
         if (typeof evt.data === "string") {
             try {
                 parsed = JSON.parse(evt.data as string);
             } catch {
                 // still emit raw below; just no parsed
+                parseFailed = true;
             }
         }
         this.emit(AssistantEvent.SOCKET_MESSAGE, { raw: evt, parsed });
 
-        const data = parsed;
-        if (!data) return;
-
-        if (data?.heartbeat === true) {
-            this.missedPongs = 0;
+        if (parseFailed) {
+            this.log.warn("dropping server frame that is not valid JSON");
+            this.emit(AssistantEvent.ERROR, { error: new RattProtocolError("invalid-json", "server frame is not valid JSON", evt.data) });
             return;
         }
+        if (parsed === undefined) return; // binary frame
 
-        if (data?.error) {
-            this.localTeardown();
-            this.opts.showToast("error", "Error", "Something failed , Please try again.");
-            this.emit(AssistantEvent.ERROR, { error: data.error });
+        let messages: ServerMessage[];
+        try {
+            messages = validateServerMessage(parsed);
+        } catch (error) {
+            this.log.warn("dropping malformed server frame", error);
+            this.emit(AssistantEvent.ERROR, { error });
             return;
         }
+        for (const msg of messages) this.handleServerMessage(msg);
+    };
 
-        if (data?.start_audio) {
-            this.canSendAudio = true;
-            this._micConnecting = false;
-            this.emit(AssistantEvent.MIC_CONNECTING, { connecting: false });
-            this._micOpen = true;
-            this.emit(AssistantEvent.MIC_OPEN, { open: true });
-            if (!this.isRecording && this.isMsgSended) {
-                this.startRecording().catch(() => {});
+    private handleServerMessage(msg: ServerMessage) {
+        switch (msg.type) {
+            case "heartbeat": {
+                const rtt = this.heartbeat?.receive(msg.seq) ?? null;
+                if (rtt !== null) this.stats.heartbeatRtt(rtt);
+                this.updateQuality();
+                if (rtt !== null) this.emit(AssistantEvent.HEARTBEAT, { rttMs: rtt, smoothedRttMs: this.heartbeat!.rttMs!, quality: this._quality });
+                return;
             }
-            this.flushBufferedAudio();
-            return;
-        }
 
-        if (data?.streaming_data?.previous_transcription !== undefined && data?.streaming_data?.new_transcription && this.isMsgSended) {
-            appendWords(
-                (full, delta) => {
-                    this._transcription = full;
-                    this.userText = full;
-                    this.emit(AssistantEvent.TRANSCRIPTION, { text: full, delta });
-                },
-                data.streaming_data.previous_transcription,
-                data.streaming_data.new_transcription
-            );
-            return;
-        }
+            case "error":
+                if (!this.sessionActive) return; // idle here: it's for another client on the shared socket
+                this.log.warn("server reported an error", msg.error);
+                this.failure = new RattSessionError("server-error", "server reported an error", msg.error);
+                this.localTeardown();
+                this.opts.showToast("error", "Error", "Something failed , Please try again.");
+                this.emit(AssistantEvent.ERROR, { error: msg.error });
+                return;
 
-        if (data?.transcription && this.isMsgSended) {
-            this._transcription = data.transcription;
-            this.userText = data.transcription;
-            this.emit(AssistantEvent.TRANSCRIPTION, { text: this._transcription });
-        }
+            case "start_audio":
+                if (!this.transition("streaming")) return; // not waiting for one (e.g. cancelled)
+                this.stats.started(this.opts.requestId.current);
+                this.emit(AssistantEvent.MIC_CONNECTING, { connecting: false });
+                this.emit(AssistantEvent.MIC_OPEN, { open: true });
+                this.releasePreRoll();
+                if (this.silenceElapsed) this.armSilenceTimer(); // the user stopped talking before the gate opened
+                if (!this.isRecording) {
+                    this.startRecording().catch(() => {});
+                }
+                this.flushBufferedAudio();
+                return;
 
-        if (data?.stop_audio) {
-            this.setAmplitude(0);
-            this.stopRecording();
-        }
+            case "streaming_data":
+                if (!msg.next || !this.sessionActive) return;
+                this.stats.transcript(this.opts.requestId.current);
+                this._transcript.interim(msg.previous, msg.next);
+                return;
 
-        if (data?.disconnect) {
-            this.localTeardown();
-            this.handleSend();
+            case "transcription":
+                if (!msg.text || !this.sessionActive) return;
+                this.stats.transcript(this.opts.requestId.current);
+                this._transcript.final(msg.text);
+                return;
+
+            case "stop_audio":
+                if (!this.sessionActive) return;
+                this.flushBufferedAudio(true);
+                this.setAmplitude(0);
+                this.stopRecording();
+                return;
+
+            case "disconnect":
+                if (!this.sessionActive) return;
+                this.localTeardown();
+                this.handleSend();
+                return;
+
+            case "unknown": {
+                const handlers = msg.kind !== undefined ? this.messageHandlers.get(msg.kind) : undefined;
+                if (handlers?.size) {
+                    handlers.forEach((h) => h(msg.data));
+                    return;
+                }
+                this.emit(AssistantEvent.UNKNOWN_MESSAGE, { kind: msg.kind, data: msg.data });
+                return;
+            }
         }
-    };
+    }
+
+    /** Serialize through the protocol codec and send on the current socket. */
+    private sendMessage(msg: ClientMessage) {
+        this.ws?.send(encodeClientMessage(msg));
+    }
 
     private attachSocketHandlers(socket: WebSocket) {
         // already attached to THIS socket
@@ -420,6 +1099,8 @@ export class AssistantClient extends EventTarget {
         if (this.handlerSocket && this.handlerSocket !== socket) {
             this.detachSocketHandlers();
         }
+        this.stats.openConnection();
+        this.startStatsTimer();
 
         // define bound handlers if not yet created
         if (!this.boundOnOpen) {
@@ -432,22 +1113,41 @@ export class AssistantClient extends EventTarget {
 
         if (!this.boundOnError) {
             this.boundOnError = (e) => {
+                const status = rejectedHandshakeStatus(e);
+                if (status) {
+                    this.log.warn(`handshake rejected (HTTP ${status})`);
+                    this.authRejection = new RattSessionError("auth-failed", `handshake rejected (HTTP ${status})`, e);
+                    this.emit(AssistantEvent.AUTH_FAILED, { status, error: e });
+                }
                 this.emit(AssistantEvent.ERROR, { error: e });
             };
         }
         if (!this.boundOnClose) {
             this.boundOnClose = (event) => {
-                console.warn("[WebSocket] closed", event);
+                this.log.info(`socket closed (code ${event.code ?? "?"}${event.reason ? `, ${event.reason}` : ""})`);
                 this._wsReady = false;
                 this.stopHeartbeat();
-                this.localTeardown();
-                if (AssistantClient.ACTIVE_WS === socket) AssistantClient.ACTIVE_WS = null;
+                this.stats.closeConnection(event.code ?? null);
+                let authError = this.authRejection; // handshake refused (see boundOnError)
+                this.authRejection = null;
+                if (!authError && AUTH_CLOSE_CODES.includes(event.code)) {
+                    this.log.warn(`server closed the socket for auth reasons (code ${event.code})`);
+                    authError = new RattSessionError("auth-failed", `server rejected the credentials (code ${event.code})`, event);
+                    this.emit(AssistantEvent.AUTH_FAILED, { closeCode: event.code, error: event });
+                }
+                if (!authError && this.canResume()) {
+                    this.suspendSession(event);
+                } else {
+                    if (this._state !== "idle" && this._state !== "closed") {
+                        this.failure = authError ?? new RattSessionError("socket-closed", `socket closed (code ${event.code ?? "?"})`, event);
+                    }
+                    this.localTeardown();
+                }
+                clearConnectionSocket(this.opts.connectionKey, socket);
                 if (!this.cleanedUp) {
                     // detach from this socket to avoid zombie handlers
                     this.detachSocketHandlers();
-                    this.reconnectTimer = setTimeout(() => {
-                        this.connect().catch(() => {});
-                    }, 2000);
+                    this.scheduleReconnect();
                 } else {
                     // we were explicitly torn down; ensure handlers are gone
                     this.detachSocketHandlers();
@@ -469,6 +1169,8 @@ export class AssistantClient extends EventTarget {
         }
 
         this.handlerSocket = socket;
+        // joined a socket another client already opened: no "open" event is coming for us
+        if (socket.readyState === WS_OPEN) this.startHeartbeat();
     }
 
     private detachSocketHandlers() {
@@ -479,6 +1181,7 @@ export class AssistantClient extends EventTarget {
         if (this.boundOnClose) socket.removeEventListener("close", this.boundOnClose);
         if (this.boundOnMessage) socket.removeEventListener("message", this.boundOnMessage);
         this.boundOnOpen = this.boundOnError = this.boundOnClose = this.boundOnMessage = undefined;
+        this.handlerSocket = null;
 
         if (typeof window !== "undefined") {
             window.removeEventListener("beforeunload", this.clientDisconnect);
@@ -498,33 +1201,38 @@ export class AssistantClient extends EventTarget {
             return;
         }
         try {
-            const stream = await this.opts.mediaStreamProvider();
+            const stream = await this.opts.mediaStreamProvider(this.inputDeviceId);
             this.mediaStream = stream;
 
             this.audioCtx = await this.opts.workletLoader(this.opts.workletBasePath);
             if (this.audioCtx.state === "suspended") await this.audioCtx.resume();
 
             this.recNode = new AudioWorkletNode(this.audioCtx, "recorder-worklet");
-            this.vadNode = new AudioWorkletNode(this.audioCtx, "vad-worklet");
+            this.vadNode = new AudioWorkletNode(this.audioCtx, "vad-worklet", { processorOptions: this.opts.vad });
 
+            // some browsers ignore the requested 16 kHz; resample whatever we got
+            const ctxRate = this.audioCtx.sampleRate;
             this.recNode.port.onmessage = (event) => {
-                const chunk = event.data as Float32Array;
-                const combined = new Float32Array(this.rolling.length + chunk.length);
-                combined.set(this.rolling);
-                combined.set(chunk, this.rolling.length);
-                this.rolling = combined;
+                if (this._muted) return;
+                const chunk = this.conform(event.data as Float32Array, ctxRate, 1, "mic");
+                // gate closed and nobody talking yet: only keep the last preRollMs
+                if (!this.gateOpen && !this.speechLatched) {
+                    this.ensurePreRoll().write(chunk);
+                    return;
+                }
+                this.appendRolling(chunk);
+                this.flushBufferedAudio();
             };
 
-            this.vadNode.port.onmessage = (event) => {
-                const { energy } = event.data;
-                this.setAmplitude(energy);
-            };
+            this.vadNode.port.onmessage = (event) => this.handleVadMessage(event.data);
 
             const src = this.audioCtx.createMediaStreamSource(stream);
             src.connect(this.recNode);
             src.connect(this.vadNode);
+            this.sourceNode = src;
             this.recNode.connect(this.audioCtx.destination);
             this.vadNode.connect(this.audioCtx.destination);
+            this.watchDevices(stream);
 
             this.isRecording = true;
 
@@ -534,13 +1242,21 @@ export class AssistantClient extends EventTarget {
             }
             this.ensureSender();
         } catch (err) {
-            console.error("Microphone access error:", err);
+            this.log.error("microphone access failed", err);
             this.stopRecording();
         }
     }
 
     private stopRecording() {
+        this.clearSilenceTimer();
+        if (this.speechStartedAt !== null) {
+            this.emit(AssistantEvent.SPEECH_END, { durationMs: Date.now() - this.speechStartedAt, misfire: false });
+            this.speechStartedAt = null;
+        }
         if (!this.opts.externalAudio) {
+            this.unwatchDevices?.();
+            this.sourceNode?.disconnect();
+            this.sourceNode = null;
             this.recNode?.disconnect();
             this.vadNode?.disconnect();
             if (this.audioCtx && this.audioCtx.state !== "closed") this.audioCtx.suspend();
@@ -551,99 +1267,510 @@ export class AssistantClient extends EventTarget {
             this.sendInterval = null;
         }
         this.isRecording = false;
-        this._micOpen = false;
+        this.resamplers = { push: null, mic: null };
+        this.downmixers = { push: null, mic: null };
+        this.preRoll?.clear();
+        this.speechLatched = false;
+        this.sendPaused = false;
         this.emit(AssistantEvent.MIC_OPEN, { open: false });
-        this.canSendAudio = false;
+        // capture is gone, so a streaming session can only be winding down now
+        if (this._state === "streaming") this.transition("stopping");
     }
 
-    private ensureSender() {
-        if (this.sendInterval) return;
-        this.sendInterval = setInterval(() => {
-            if (!this.isRecording || !this.ws || this.ws.readyState !== WebSocket.OPEN) return;
-            if (!this.canSendAudio) return; // gate closed until start_audio
-            // 1) External PCM16 path
-            const pcmChunkSize = this.opts.pcmChunkSize; // typically 16000 samples
-            if (this.rollingPCM16.length >= pcmChunkSize) {
-                const slice = this.rollingPCM16.slice(0, pcmChunkSize);
-                this.ws.send(Buffer.from(slice.buffer, slice.byteOffset, slice.byteLength));
-                this.rollingPCM16 = this.rollingPCM16.slice(pcmChunkSize);
-                return; // send one chunk per tick to keep cadence
+    /** Open `deviceId` (undefined: the system default) and swap it in front of the worklets; no-op unless recording. */
+    private async swapInput(deviceId: string | undefined): Promise<void> {
+        if (!this.isRecording || !this.audioCtx || !this.recNode || !this.vadNode) return;
+        const swap = ++this.inputSwaps;
+
+        const stream = await this.opts.mediaStreamProvider(deviceId);
+        // recording stopped, or another swap won, while we waited for the device
+        if (!this.isRecording || !this.audioCtx || !this.recNode || !this.vadNode || swap !== this.inputSwaps) {
+            stream.getTracks().forEach((t) => t.stop());
+            return;
+        }
+        const src = this.audioCtx.createMediaStreamSource(stream);
+        src.connect(this.recNode);
+        src.connect(this.vadNode);
+        this.sourceNode?.disconnect();
+        this.mediaStream?.getTracks().forEach((t) => t.stop());
+        this.sourceNode = src;
+        this.mediaStream = stream;
+        this.watchDevices(stream);
+        this.log.info("switched input device", deviceId ?? "default");
+    }
+
+    /**
+     * Hot-swap: once the captured track has ended, reopen the selected input if
+     * it's still listed, else the system default; when the selected input shows
+     * up again, move back to it. A device that won't open is logged and skipped.
+     */
+    private async reopenInput(devices?: MediaDeviceInfo[]) {
+        const track = this.mediaStream?.getAudioTracks()[0];
+        const live = track?.readyState === "live";
+        const listed = devices ?? (await AssistantClient.listInputDevices().catch((): MediaDeviceInfo[] => []));
+        const selected = listed.some((d) => d.deviceId === this.inputDeviceId) ? this.inputDeviceId : undefined;
+        if (live && (selected === undefined || track.getSettings().deviceId === selected)) return;
+        try {
+            await this.swapInput(selected);
+        } catch (error) {
+            this.log.warn("could not reopen the input device", error);
+        }
+    }
+
+    /** Report the capture track ending and OS device list changes as DEVICE_CHANGE, and hot-swap the input. */
+    private watchDevices(stream: MediaStream) {
+        this.unwatchDevices?.();
+        const track = stream.getAudioTracks()[0];
+        const media = typeof navigator !== "undefined" ? navigator.mediaDevices : undefined;
+        const current = () => track?.getSettings().deviceId ?? this.inputDeviceId ?? null;
+
+        const onEnded = () => {
+            this.log.warn("input device ended", current());
+            this.emit(AssistantEvent.DEVICE_CHANGE, { reason: "track-ended", deviceId: current() });
+            if (this.unwatchDevices === unwatch) this.reopenInput();
+        };
+        const onDeviceChange = () => {
+            AssistantClient.listInputDevices().then(
+                (devices) => {
+                    if (this.unwatchDevices !== unwatch) return;
+                    this.emit(AssistantEvent.DEVICE_CHANGE, { reason: "devices-changed", deviceId: current(), devices });
+                    this.reopenInput(devices);
+                },
+                (error) => this.log.warn("could not list input devices", error),
+            );
+        };
+        const unwatch = () => {
+            track?.removeEventListener("ended", onEnded);
+            media?.removeEventListener("devicechange", onDeviceChange);
+            this.unwatchDevices = null;
+        };
+        track?.addEventListener("ended", onEnded);
+        media?.addEventListener("devicechange", onDeviceChange);
+        this.unwatchDevices = unwatch;
+    }
+
+    private handleVadMessage(data: { event?: string; energy?: number; padFrames?: number }) {
+        if (this._muted) return;
+        if (typeof data?.energy === "number") this.setAmplitude(data.energy);
+
+        if (data?.event === "voice_start") {
+            this.clearSilenceTimer();
+            this.speechStartedAt = Date.now();
+            if (!this.gateOpen && this.isRecording && !this.speechLatched) {
+                this.latchSpeech(data.padFrames ?? 0);
             }
-            // 2) Browser Float32 path (convert -> send)
-            if (this.rolling.length >= TARGET_SAMPLES) {
-                const chunk = this.rolling.slice(0, TARGET_SAMPLES);
-                const pcm = floatTo16BitPCM(chunk);
-                this.ws.send(pcm.buffer);
-                this.rolling = this.rolling.slice(TARGET_SAMPLES);
+            this.emit(AssistantEvent.SPEECH_START, { energy: data.energy ?? 0 });
+            return;
+        }
+
+        if (data?.event === "voice_stop" || data?.event === "voice_misfire") {
+            const misfire = data.event === "voice_misfire";
+            const durationMs = this.speechStartedAt !== null ? Date.now() - this.speechStartedAt : 0;
+            this.speechStartedAt = null;
+            this.emit(AssistantEvent.SPEECH_END, { durationMs, misfire });
+            if (!misfire) this.armSilenceTimer();
+        }
+    }
+
+    private ensurePreRoll() {
+        const capacity = Math.max(1, Math.round((this.opts.preRollMs * TARGET_SAMPLE_RATE) / 1000));
+        if (!this.preRoll || this.preRoll.capacity !== capacity) this.preRoll = new RingBuffer(Float32Array, capacity);
+        return this.preRoll;
+    }
+
+    /**
+     * Speech started while we're still waiting on start_audio: keep only the
+     * pad window before it, and from now on buffer everything (it's speech).
+     */
+    private latchSpeech(padFrames: number) {
+        this.speechLatched = true;
+        if (!this.preRoll) return;
+        const ctxRate = this.audioCtx?.sampleRate ?? TARGET_SAMPLE_RATE;
+        const padSamples = Math.round((padFrames * 128 * TARGET_SAMPLE_RATE) / ctxRate);
+        this.prependRolling(this.preRoll.tail(padSamples));
+        this.preRoll.clear();
+    }
+
+    /** Gate opened: whatever the pre-roll holds goes out ahead of live audio. */
+    private releasePreRoll() {
+        if (this.preRoll?.length) this.prependRolling(this.preRoll.tail());
+        this.preRoll?.clear();
+        this.speechLatched = false;
+    }
+
+    private appendRolling(chunk: Float32Array) {
+        this.enforceQueueBound(this.rolling.write(chunk));
+    }
+
+    private appendRollingPCM16(chunk: Int16Array) {
+        this.enforceQueueBound(this.rollingPCM16.write(chunk));
+    }
+
+    private prependRolling(chunk: Float32Array) {
+        if (!chunk.length) return;
+        this.enforceQueueBound(this.rolling.unshift(chunk));
+    }
+
+    /** After speech ends, wait autoStopOnSilenceMs; if nobody speaks again, end the utterance ourselves. */
+    private armSilenceTimer() {
+        const ms = this.opts.autoStopOnSilenceMs;
+        if (!ms || ms <= 0) return;
+        this.clearSilenceTimer();
+        this.silenceTimer = setTimeout(() => {
+            this.silenceTimer = null;
+            if (!this.gateOpen) {
+                this.silenceElapsed = true;
                 return;
             }
-        }, 1000);
+            this.stopMic(); // -> stopping; the server's final transcript + disconnect finish it (and call handleSend)
+            this.stopTimer = setTimeout(() => {
+                this.stopTimer = null;
+                this.localTeardown();
+                this.handleSend();
+            }, AUTO_STOP_TIMEOUT_MS);
+        }, ms);
+    }
+
+    private clearSilenceTimer() {
+        if (this.silenceTimer) clearTimeout(this.silenceTimer);
+        this.silenceTimer = null;
+        this.silenceElapsed = false;
+    }
+
+    private ensureSender() {
+        if (this.sendInterval) return;
+        // frames normally go out the moment they fill (see appendRolling/pushPCM16);
+        // this tick picks up audio that arrived while the socket or gate wasn't ready
+        this.sendInterval = setInterval(() => {
+            if (!this.isRecording) return;
+            this.flushBufferedAudio();
+        }, this.opts.frameDurationMs);
+    }
+
+    /** samples per outgoing frame on the Float32 (mic) path */
+    private get frameSamples() {
+        return Math.max(1, Math.round((this.opts.frameDurationMs * TARGET_SAMPLE_RATE) / 1000));
     }
 
-    private flushBufferedAudio() {
-        if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
-        if (!this.canSendAudio) return;
+    /**
+     * Send every full frame that is buffered. With `final`, also drain the
+     * resamplers and send the partial tail instead of dropping it.
+     */
+    private flushBufferedAudio(final = false) {
+        if (!this.ws || this.ws.readyState !== WS_OPEN) return;
+        if (!this.gateOpen) return;
+        if (final) this.drainResamplers();
 
         const pcmChunkSize = this.opts.pcmChunkSize;
         // Flush PCM16 first
-        while (this.rollingPCM16.length >= pcmChunkSize) {
-            const slice = this.rollingPCM16.slice(0, pcmChunkSize);
-            this.ws.send(Buffer.from(slice.buffer, slice.byteOffset, slice.byteLength));
-            this.rollingPCM16 = this.rollingPCM16.slice(pcmChunkSize);
+        while (this.rollingPCM16.length >= pcmChunkSize || (final && this.rollingPCM16.length > 0)) {
+            if (!final && !this.checkBackpressure()) return;
+            // the frame must own its bytes: ws may hold on to it (e.g. while compressing)
+            const frame = this.rollingPCM16.read(pcmChunkSize);
+            this.sendAudioFrame(frame);
         }
         // Then flush float32 buffer if any (browser)
-        while (this.rolling.length >= TARGET_SAMPLES) {
-            const chunk = this.rolling.slice(0, TARGET_SAMPLES);
+        const frameSamples = this.frameSamples;
+        while (this.rolling.length >= frameSamples || (final && this.rolling.length > 0)) {
+            if (!final && !this.checkBackpressure()) return;
+            // convert straight out of the ring (zero-copy view) into the outgoing PCM16 frame
+            const chunk = this.rolling.peek(frameSamples);
             const pcm = floatTo16BitPCM(chunk);
-            this.ws.send(pcm.buffer);
-            this.rolling = this.rolling.slice(TARGET_SAMPLES);
+            this.rolling.skip(chunk.length);
+            this.sendAudioFrame(pcm);
         }
     }
+
+    /** Send one owned PCM16 frame, keeping a copy for getRecording() when recordSession is on. */
+    private sendAudioFrame(frame: Int16Array) {
+        this.ws?.send(frame.buffer);
+        this.recorder?.add(this.opts.requestId.current, frame);
+        this.stats.frameSent(this.opts.requestId.current, frame.byteLength);
+    }
+
+    /** local audio waiting to be sent, in bytes as it will go over the wire (PCM16) */
+    private get queuedBytes() {
+        return (this.rolling.length + this.rollingPCM16.length) * 2;
+    }
+
+    /**
+     * Decide whether another frame may go out, based on ws.bufferedAmount and the
+     * configured watermarks. Pauses above highWaterMark, resumes below lowWaterMark.
+     */
+    private checkBackpressure(): boolean {
+        const bp = this.opts.backpressure;
+        const bufferedAmount = this.ws?.bufferedAmount ?? 0;
+
+        if (this.sendPaused) {
+            if (bufferedAmount > bp.lowWaterMark) return false;
+            this.sendPaused = false;
+            this.emit(AssistantEvent.BACKPRESSURE, { paused: false, bufferedAmount, queuedBytes: this.queuedBytes, dropped: 0 });
+            return true;
+        }
+
+        if (bufferedAmount < bp.highWaterMark) return true;
+
+        if (bp.policy === "fail") {
+            const error = new RattSessionError("backpressure", `socket send buffer reached ${bufferedAmount} bytes (highWaterMark ${bp.highWaterMark})`);
+            this.emit(AssistantEvent.BACKPRESSURE, { paused: false, bufferedAmount, queuedBytes: this.queuedBytes, dropped: 0 });
+            this.rolling.clear();
+            this.rollingPCM16.clear();
+            this.failure = error;
+            if (this.ws && this.ws.readyState === WS_OPEN) this.sendMessage({ type: "disconnect" });
+            this.localTeardown();
+            this.emit(AssistantEvent.ERROR, { error });
+            return false;
+        }
+
+        this.sendPaused = true;
+        this.emit(AssistantEvent.BACKPRESSURE, { paused: true, bufferedAmount, queuedBytes: this.queuedBytes, dropped: 0 });
+        this.enforceQueueBound();
+        return false;
+    }
+
+    /**
+     * Cap local buffering: the queues themselves hold at most maxBufferedMs (the
+     * ring overwrites, `overwritten` reports it), and while the socket is congested
+     * under the "drop-oldest" policy only a single frame is kept. Oldest audio goes first.
+     */
+    private enforceQueueBound(overwritten = 0) {
+        let dropped = overwritten;
+        if (this.sendPaused && this.opts.backpressure.policy === "drop-oldest") {
+            const floatExcess = Math.max(0, this.rolling.length - this.frameSamples);
+            const pcmExcess = Math.max(0, this.rollingPCM16.length - this.opts.pcmChunkSize);
+            this.rolling.skip(floatExcess);
+            this.rollingPCM16.skip(pcmExcess);
+            dropped += floatExcess + pcmExcess;
+        }
+        if (dropped) {
+            this.emit(AssistantEvent.BACKPRESSURE, {
+                paused: this.sendPaused,
+                bufferedAmount: this.ws?.bufferedAmount ?? 0,
+                queuedBytes: this.queuedBytes,
+                dropped,
+            });
+        }
+    }
+
+    /** Push the samples the resamplers still hold back into the send buffers. */
+    private drainResamplers() {
+        const { push, mic } = this.resamplers;
+        if (mic) this.appendRolling(mic.flush());
+        if (push) this.appendRollingPCM16(floatTo16BitPCM(push.flush()));
+    }
     /* ---------- heartbeat ---------- */
     private startHeartbeat() {
         this.stopHeartbeat();
-        this.missedPongs = 0;
-        this.heartbeatInterval = setInterval(() => {
-            if (this.ws?.readyState === WebSocket.OPEN) {
-                this.ws.send(JSON.stringify({ heartbeat: true }));
-                this.missedPongs++;
-                if (this.missedPongs >= this.opts.maxMissedPongs) {
-                    this.ws?.close();
+        this.heartbeat = new QualityMonitor(this.opts.quality);
+        this.updateQuality(); // a fresh socket starts out "good"
+        this.scheduleHeartbeat();
+    }
+
+    /**
+     * Next heartbeat in pingIntervalMs, or in quality.probeIntervalMs while the
+     * link isn't "good". The socket is closed once nothing was echoed for
+     * maxMissedPongs × pingIntervalMs, however often we probed meanwhile.
+     */
+    private scheduleHeartbeat() {
+        const delay = this._quality === "good" ? this.opts.pingIntervalMs : Math.min(this.opts.pingIntervalMs, this.opts.quality.probeIntervalMs);
+        this.heartbeatTimer = setTimeout(() => {
+            this.heartbeatTimer = null;
+            const monitor = this.heartbeat;
+            if (!monitor) return;
+            if (this.ws?.readyState === WS_OPEN) {
+                const seq = monitor.send(delay);
+                if (monitor.silentMs >= this.opts.maxMissedPongs * this.opts.pingIntervalMs) {
+                    this.log.warn(`no heartbeat echo for ${monitor.silentMs}ms; closing the socket`);
+                    this.ws.close();
+                    return;
                 }
+                this.sendMessage({ type: "heartbeat", seq, ts: Date.now() });
+                this.stats.heartbeatSent();
+                if (!this.echoTimer) this.armEchoTimer();
+            }
+            this.scheduleHeartbeat();
+        }, delay);
+    }
+
+    /** Wake up when the oldest unanswered heartbeat runs past quality.poorRttMs. */
+    private armEchoTimer() {
+        const deadline = this.heartbeat?.nextDeadline() ?? null;
+        if (deadline === null) return;
+        // +5: timers may fire a ms early
+        this.echoTimer = setTimeout(() => {
+            this.echoTimer = null;
+            const expired = this.heartbeat?.expire() ?? 0;
+            if (expired) {
+                this.stats.heartbeatsMissed(expired);
+                this.updateQuality();
             }
-        }, this.opts.pingIntervalMs);
+            this.armEchoTimer();
+        }, Math.max(0, deadline - Date.now()) + 5);
     }
 
     private stopHeartbeat() {
-        if (this.heartbeatInterval) clearInterval(this.heartbeatInterval);
-        this.heartbeatInterval = null;
-        this.missedPongs = 0;
+        if (this.heartbeatTimer) clearTimeout(this.heartbeatTimer);
+        if (this.echoTimer) clearTimeout(this.echoTimer);
+        this.heartbeatTimer = this.echoTimer = null;
+        this.heartbeat = null;
+    }
+
+    /** STATS ticks run from the first socket this client uses until closeSocket(), across reconnects. */
+    private startStatsTimer() {
+        if (this.statsInterval || this.opts.statsIntervalMs <= 0) return;
+        this.statsInterval = setInterval(() => this.emit(AssistantEvent.STATS, this.getStats()), this.opts.statsIntervalMs);
+    }
+
+    private stopStatsTimer() {
+        if (this.statsInterval) clearInterval(this.statsInterval);
+        this.statsInterval = null;
+    }
+
+    /** Re-derive connectionQuality from the heartbeat monitor; on a change, emit and re-pace the heartbeat. */
+    private updateQuality() {
+        const monitor = this.heartbeat;
+        if (!monitor) return;
+        const previous = this._quality;
+        const quality = monitor.quality;
+        if (quality === previous) return;
+        this._quality = quality;
+        this.log.info(`connection quality ${previous} -> ${quality}`);
+        this.emit(AssistantEvent.QUALITY_CHANGE, { quality, previous, rttMs: monitor.rttMs, missedPongs: monitor.missedStreak });
+        if (this.heartbeatTimer && (previous === "good") !== (quality === "good")) {
+            clearTimeout(this.heartbeatTimer);
+            this.scheduleHeartbeat();
+        }
     }
 
     /* ---------- teardown & helpers ---------- */
+    /** Release this client's hold on the socket; the socket itself closes once its last user releases it. */
     public closeSocket() {
+        if (this._state !== "idle" && this._state !== "closed") this.localTeardown();
+        this.transition("closed");
         this.cleanedUp = true;
-        try {
-            this.ws?.close();
-        } catch {}
-        if (AssistantClient.ACTIVE_WS === this.ws) AssistantClient.ACTIVE_WS = null;
+        this.clearReconnect();
+        this.reconnectAttempts = 0;
+        this.stopHeartbeat(); // our close handler is detached below, so it won't run for this socket
+        this.stopStatsTimer();
+        this.stats.closeConnection(null);
+        const remaining = releaseConnection(this.opts.connectionKey, this);
+        if (this.ws && remaining === 0) {
+            try {
+                this.ws.close();
+            } catch {}
+            clearConnectionSocket(this.opts.connectionKey, this.ws);
+        }
         this.detachSocketHandlers();
         this.ws = null;
     }
 
+    /** Toggle-off while connecting / waiting for start_audio: tell the server and go back to idle. */
+    private cancelPending() {
+        if (this.ws && this.ws.readyState === WS_OPEN) {
+            this.sendMessage({ type: "disconnect" });
+        }
+        this._transcript.finalize();
+        this.transition("idle");
+        this.emit(AssistantEvent.MIC_CONNECTING, { connecting: false });
+        this.stopRecording();
+    }
+
+    /**
+     * Move the session to `next` if the transition table allows it; invalid
+     * transitions are refused (returns false) and leave the state untouched.
+     */
+    private transition(next: SessionState): boolean {
+        const previous = this._state;
+        if (previous === next || !SESSION_TRANSITIONS[previous].includes(next)) return false;
+        this._state = next;
+        this.log.debug(`state ${previous} -> ${next}`);
+        if (previous === "resuming" && this.resumeTimer) {
+            clearTimeout(this.resumeTimer);
+            this.resumeTimer = null;
+        }
+        if (previous === "stopping" && this.stopTimer) {
+            clearTimeout(this.stopTimer);
+            this.stopTimer = null;
+        }
+        this.emit(AssistantEvent.STATE_CHANGE, { previous, next });
+        this.syncSilenceFill();
+        return true;
+    }
+
+    /** an unexpected close may be bridged: resume is on, reconnect will bring the socket back, and an utterance is open */
+    private canResume() {
+        const active = this._state === "awaiting-start" || this._state === "streaming" || this._state === "resuming";
+        return active && this.opts.resume.enabled && this.opts.reconnect.enabled && !this.cleanedUp;
+    }
+
+    /**
+     * Socket dropped mid-utterance: keep requestId, transcript and capture,
+     * and let audio pile up in the (bounded) send queue until resumeSession().
+     */
+    private suspendSession(event: CloseEvent) {
+        if (this._state === "resuming") return; // dropped again while resuming; the original deadline stands
+        this.transition("resuming");
+        this.speechLatched = true; // mic audio goes to the send queue, not the short pre-roll
+        this.log.info(`holding session ${this.opts.requestId.current} until the socket is back`);
+        this.resumeTimer = setTimeout(() => {
+            this.resumeTimer = null;
+            this.abandonResume(`socket closed (code ${event.code ?? "?"}) and the session was not resumed within ${this.opts.resume.timeoutMs}ms`, event);
+        }, this.opts.resume.timeoutMs);
+    }
+
+    /** Reconnected: re-send the details with the same requestId; start_audio then replays the queue. */
+    private resumeSession() {
+        if (this._state !== "resuming") return;
+        const details = { ...this.opts.rattAgentDetails, ...this.opts.resume.marker, requestId: this.opts.requestId.current };
+        this.log.debug("resuming with details", details);
+        this.sendMessage({ type: "details", details });
+    }
+
+    private abandonResume(message: string, cause?: unknown) {
+        if (this._state !== "resuming") return;
+        this.log.warn(message);
+        this.failure = new RattSessionError("socket-closed", message, cause);
+        this.localTeardown();
+    }
+
+    /** Run the zero-frame sender exactly while paused in "silence" mode and streaming. */
+    private syncSilenceFill() {
+        const wanted = this._muted && this.opts.pauseMode === "silence" && this.gateOpen;
+        if (wanted && !this.silenceFill) {
+            this.silenceFill = setInterval(() => {
+                if (!this.ws || this.ws.readyState !== WS_OPEN || !this.checkBackpressure()) return;
+                this.sendAudioFrame(new Int16Array(this.frameSamples));
+            }, this.opts.frameDurationMs);
+        } else if (!wanted && this.silenceFill) {
+            clearInterval(this.silenceFill);
+            this.silenceFill = null;
+        }
+    }
+
+    /** details were sent for the current requestId and it hasn't been torn down */
+    private get sessionActive() {
+        return this._state === "awaiting-start" || this._state === "streaming" || this._state === "resuming" || this._state === "stopping";
+    }
+
+    /** audio may leave the client only after start_audio */
+    private get gateOpen() {
+        return this._state === "streaming";
+    }
+
     private clientDisconnect = () => {
-        if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-            this.ws.send(JSON.stringify({ disconnect: true }));
+        if (this.ws && this.ws.readyState === WS_OPEN) {
+            this.flushBufferedAudio(true); // don't drop the partial last frame
+            this.sendMessage({ type: "disconnect" });
         }
         this.localTeardown();
     };
 
     private localTeardown() {
-        this.isMsgSended = false;
+        this._transcript.finalize();
         this.isRecording = false;
-        this._micConnecting = false;
         this.emit(AssistantEvent.MIC_CONNECTING, { connecting: false });
         this.stopRecording();
+        this.transition("idle");
         this._amplitude = 0;
         this.emit(AssistantEvent.AMPLITUDE, { value: 0 });
 
@@ -657,6 +1784,40 @@ export class AssistantClient extends EventTarget {
         }
     }
 
+    /** Schedule the next reconnect attempt according to the backoff policy. */
+    private scheduleReconnect() {
+        const policy = this.opts.reconnect;
+        if (!policy.enabled || this.cleanedUp || this.reconnectTimer) return;
+
+        if (this.reconnectAttempts >= policy.maxAttempts) {
+            this.log.warn(`giving up reconnecting after ${this.reconnectAttempts} attempts`);
+            this.emit(AssistantEvent.RECONNECT_FAILED, { attempts: this.reconnectAttempts });
+            this.reconnectAttempts = 0;
+            this.abandonResume(`socket could not be reconnected after ${policy.maxAttempts} attempts`);
+            return;
+        }
+
+        const attempt = ++this.reconnectAttempts;
+        const delay = computeBackoffDelay(attempt, policy);
+        this.log.info(`reconnecting in ${delay}ms (attempt ${attempt})`);
+        this.emit(AssistantEvent.RECONNECTING, { attempt, delay });
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            if (this.cleanedUp) return;
+            this.connect().then(
+                () => {
+                    const attempts = this.reconnectAttempts;
+                    this.reconnectAttempts = 0;
+                    this.stats.reconnects++;
+                    this.emit(AssistantEvent.RECONNECTED, { attempts });
+                    this.resumeSession();
+                },
+                () => this.scheduleReconnect()
+            );
+        }, delay);
+    }
+
     private clearReconnect() {
         if (this.reconnectTimer) {
             clearTimeout(this.reconnectTimer);
@@ -664,12 +1825,27 @@ export class AssistantClient extends EventTarget {
         }
     }
 
+    /** Downmix + resample to 16 kHz mono, keeping one stateful downmixer and resampler per input stream. */
+    private conform(samples: Float32Array, sampleRate: number, channels: number, stream: "push" | "mic"): Float32Array {
+        let downmixer = this.downmixers[stream];
+        if (!downmixer || downmixer.channels !== channels) {
+            downmixer = this.downmixers[stream] = new StreamingDownmixer(channels);
+        }
+        const mono = downmixer.process(samples);
+        if (sampleRate === TARGET_SAMPLE_RATE) return mono;
+        let resampler = this.resamplers[stream];
+        if (!resampler || resampler.inRate !== sampleRate) {
+            resampler = this.resamplers[stream] = new StreamingResampler(sampleRate, TARGET_SAMPLE_RATE);
+        }
+        return resampler.process(mono);
+    }
+
     private setAmplitude(v: number) {
         this._amplitude = v;
         this.emit(AssistantEvent.AMPLITUDE, { value: v });
     }
 
-    private emit(type: AssistantEvents, detail?: any) {
+    private emit<K extends AssistantEvents>(type: K, ...[detail]: AssistantEventDetailMap[K] extends undefined ? [] : [AssistantEventDetailMap[K]]) {
         this.dispatchEvent(new CustomEvent(type, { detail }));
     }
 
@@ -680,8 +1856,26 @@ export class AssistantClient extends EventTarget {
         }
     }
 
+    /** Ask the auth provider for this connect's URL, headers and subprotocols. */
+    private async resolveAuth(): Promise<{ url: string; nodeOptions?: { protocols?: string | string[]; headers?: Record<string, string> } }> {
+        let creds: AuthCredentials | void;
+        try {
+            creds = await this.opts.auth({ url: this.opts.url, attempt: this.reconnectAttempts });
+        } catch (error) {
+            this.log.warn("auth provider failed", error);
+            this.emit(AssistantEvent.AUTH_FAILED, { error });
+            throw new RattSessionError("auth-failed", "auth provider failed", error);
+        }
+        if (!creds) return { url: this.opts.url };
+        if (creds.headers && typeof window !== "undefined" && typeof document !== "undefined") {
+            this.log.warn("auth headers can't be set from a browser; use protocols or a url token");
+        }
+        const nodeOptions = creds.protocols || creds.headers ? { protocols: creds.protocols, headers: creds.headers } : undefined;
+        return { url: creds.url ?? this.opts.url, nodeOptions };
+    }
+
     private waitForOpen(ws: WebSocket): Promise<void> {
-        if (ws.readyState === WebSocket.OPEN) return Promise.resolve();
+        if (ws.readyState === WS_OPEN) return Promise.resolve();
         return new Promise<void>((resolve, reject) => {
             const onOpen = () => {
                 cleanup();
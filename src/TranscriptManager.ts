@@ -0,0 +1,120 @@
+import type { TranscriptOptions, TranscriptSegment } from "./types";
+import { appendWords } from "./utils/appendWords";
+
+type UpdateListener = (text: string, delta: string | undefined, final: boolean) => void;
+
+/**
+ * Tracks the transcript of every utterance (one segment per requestId) across a
+ * session. Interim `streaming_data` updates are revealed word by word (or at
+ * once when reveal is off); any newer update cancels a reveal still in flight,
+ * so text never snaps back to older content.
+ */
+export class TranscriptManager {
+    private readonly revealMs: number; // 0 = no animation
+    private readonly maxHistory: number;
+    private readonly onUpdate: UpdateListener;
+
+    private readonly _segments: TranscriptSegment[] = [];
+    private active: TranscriptSegment | null = null;
+    private cancelReveal: ((complete?: boolean) => void) | null = null;
+    private _text = "";
+
+    constructor(opts: TranscriptOptions, onUpdate: UpdateListener) {
+        const reveal = opts.reveal ?? true;
+        this.revealMs = reveal === false ? 0 : Math.max(0, (reveal === true ? undefined : reveal.wordIntervalMs) ?? 100);
+        this.maxHistory = Math.max(1, opts.maxHistory ?? 50);
+        this.onUpdate = onUpdate;
+    }
+
+    /** text currently shown (mid-reveal text included) */
+    get text() {
+        return this._text;
+    }
+
+    /** segment of the utterance in progress, if any */
+    get current(): Readonly<TranscriptSegment> | null {
+        return this.active;
+    }
+
+    /** all segments kept for this session, oldest first (the current one included) */
+    get segments(): ReadonlyArray<Readonly<TranscriptSegment>> {
+        return this._segments;
+    }
+
+    /** finalized segments only, oldest first */
+    get history(): ReadonlyArray<Readonly<TranscriptSegment>> {
+        return this._segments.filter((s) => s.final);
+    }
+
+    /** Start a new utterance; finalizes the previous one. */
+    begin(requestId: string) {
+        this.finalize();
+        const now = Date.now();
+        this.active = { requestId, text: "", final: false, startedAt: now, updatedAt: now, finalizedAt: null };
+        this._segments.push(this.active);
+        while (this._segments.length > this.maxHistory) this._segments.shift();
+        this.show("", undefined);
+    }
+
+    /** Server `streaming_data`: `next` words follow `previous`. */
+    interim(previous: string, next: string) {
+        const seg = this.active;
+        if (!seg || seg.final) return;
+        this.stopReveal(false);
+        const target = [previous, next.trim()].filter(Boolean).join(" ");
+        seg.text = target;
+        seg.updatedAt = Date.now();
+
+        if (!this.revealMs) {
+            this.show(target, next.trim() || undefined);
+            return;
+        }
+        this.cancelReveal = appendWords((full, delta) => this.show(full, delta), previous, next, this.revealMs);
+    }
+
+    /** Server `transcription`: authoritative final text for the utterance. */
+    final(text: string) {
+        const seg = this.active;
+        if (!seg) return;
+        this.stopReveal(false);
+        const now = Date.now();
+        seg.text = text;
+        seg.updatedAt = now;
+        seg.final = true;
+        seg.finalizedAt = now;
+        this.show(text, undefined);
+    }
+
+    /** Utterance ended: finish any reveal and mark the segment final. */
+    finalize() {
+        this.stopReveal(true);
+        const seg = this.active;
+        if (!seg) return;
+        if (!seg.final) {
+            seg.final = true;
+            seg.finalizedAt = Date.now();
+            if (this._text !== seg.text) this._text = seg.text;
+            this.onUpdate(this._text, undefined, true);
+        }
+        this.active = null;
+    }
+
+    /** Forget the whole session history. */
+    clear() {
+        this.stopReveal(false);
+        this.active = null;
+        this._segments.length = 0;
+        this._text = "";
+    }
+
+    private stopReveal(complete: boolean) {
+        const cancel = this.cancelReveal;
+        this.cancelReveal = null;
+        cancel?.(complete);
+    }
+
+    private show(text: string, delta: string | undefined) {
+        this._text = text;
+        this.onUpdate(text, delta, this.active?.final ?? false);
+    }
+}
@@ -0,0 +1,63 @@
+import type { SessionRecordingOptions } from "../types";
+import { TARGET_SAMPLE_RATE } from "../types";
+import { encodeWav } from "./wav";
+
+type Recording = { frames: Int16Array[]; samples: number };
+
+/**
+ * Keeps copies of the PCM16 frames actually sent, grouped by requestId, for
+ * auditing. Oldest recordings are evicted past maxRecordings; frames past
+ * maxDurationMs are not kept.
+ */
+export class SessionRecorder {
+    private readonly recordings = new Map<string, Recording>();
+    private readonly maxSamples: number;
+
+    constructor(private readonly opts: Required<SessionRecordingOptions>) {
+        this.maxSamples = Math.round((opts.maxDurationMs * TARGET_SAMPLE_RATE) / 1000);
+    }
+
+    add(requestId: string, frame: Int16Array) {
+        let rec = this.recordings.get(requestId);
+        if (!rec) {
+            rec = { frames: [], samples: 0 };
+            this.recordings.set(requestId, rec);
+            // Map keeps insertion order: the first key is the oldest recording
+            while (this.recordings.size > this.opts.maxRecordings) {
+                this.recordings.delete(this.recordings.keys().next().value as string);
+            }
+        }
+        const room = this.maxSamples - rec.samples;
+        if (room <= 0) return;
+        // sent frames are owned and never reused, so they can be kept as-is
+        const kept = frame.length > room ? frame.slice(0, room) : frame;
+        rec.frames.push(kept);
+        rec.samples += kept.length;
+    }
+
+    has(requestId: string) {
+        return this.recordings.has(requestId);
+    }
+
+    ids() {
+        return [...this.recordings.keys()];
+    }
+
+    /** WAV bytes (16 kHz mono PCM16) for a request, or null if nothing was recorded. */
+    toWav(requestId: string): Uint8Array | null {
+        const rec = this.recordings.get(requestId);
+        if (!rec) return null;
+        const pcm = new Int16Array(rec.samples);
+        let offset = 0;
+        for (const f of rec.frames) {
+            pcm.set(f, offset);
+            offset += f.length;
+        }
+        return encodeWav(pcm, TARGET_SAMPLE_RATE, 1);
+    }
+
+    clear(requestId?: string) {
+        if (requestId === undefined) this.recordings.clear();
+        else this.recordings.delete(requestId);
+    }
+}
@@ -1,5 +1,8 @@
 // src/audio/WorkletLoader.ts
-export async function ensureAudioContextAndWorklets(basePath = "/") {
+import { silentLogger } from "../utils/logger";
+import type { Logger } from "../utils/logger";
+
+export async function ensureAudioContextAndWorklets(basePath = "/", log: Logger = silentLogger) {
     // 1) Ensure secure context (required by AudioWorklet in all modern browsers)
     if (typeof window !== "undefined" && window.isSecureContext === false && location.hostname !== "localhost") {
         throw new Error("[ratt-lib] AudioWorklet requires a secure context. Use HTTPS or http://localhost during dev.");
@@ -20,7 +23,7 @@ export async function ensureAudioContextAndWorklets(basePath = "/") {
         await tryLoad(`${norm}recorder-worklet.js`, `${norm}vad-worklet.js`);
         return audioCtx;
     } catch (err) {
-        console.warn("[ratt-lib] public path failed, trying module-relative:", err);
+        log.debug("worklets: public path failed, trying module-relative", err);
     }
 
     // 3) Try module-relative (ESM only) – only if available at runtime
@@ -40,7 +43,7 @@ export async function ensureAudioContextAndWorklets(basePath = "/") {
             await tryLoad(recUrl, vadUrl);
             return audioCtx;
         } catch (err) {
-            console.warn("[ratt-lib] module-relative load failed:", err);
+            log.debug("worklets: module-relative load failed, using inline fallback", err);
         }
     }
 
@@ -51,9 +54,16 @@ export async function ensureAudioContextAndWorklets(basePath = "/") {
           process(inputs) {
             const input = inputs[0];
             if (input && input[0]) {
-              // Copy to avoid SAB issues
+              // Copy to avoid SAB issues, downmixing multichannel input to mono
+              const channels = input.length;
               const out = new Float32Array(input[0].length);
               out.set(input[0]);
+              for (let c = 1; c < channels; c++) {
+                for (let i = 0; i < out.length; i++) out[i] += input[c][i];
+              }
+              if (channels > 1) {
+                for (let i = 0; i < out.length; i++) out[i] /= channels;
+              }
               this.port.postMessage(out);
             }
             return true;
@@ -64,14 +74,15 @@ export async function ensureAudioContextAndWorklets(basePath = "/") {
 
         const vadSource = `
        class VADProcessor extends AudioWorkletProcessor {
-    constructor() {
+    constructor(options) {
         super();
-        // Configuration parameters (these are the defaults for Silero VAD)
-        this.positiveSpeechThreshold = 0.5; // Above this, treat frame as speech–positive
-        this.negativeSpeechThreshold = 0.35; // Below this, treat frame as speech–negative
-        this.redemptionFrames = 20; // Number of consecutive negative frames to consider speech ended
-        this.preSpeechPadFrames = 1; // (Optional) number of frames to prepend to a detected segment
-        this.minSpeechFrames = 3; // Minimum number of speech–positive frames required for a valid segment
+        // Configuration parameters (these are the defaults for Silero VAD), overridable via processorOptions
+        const o = (options && options.processorOptions) || {};
+        this.positiveSpeechThreshold = o.positiveSpeechThreshold ?? 0.5; // Above this, treat frame as speech–positive
+        this.negativeSpeechThreshold = o.negativeSpeechThreshold ?? 0.35; // Below this, treat frame as speech–negative
+        this.redemptionFrames = o.redemptionFrames ?? 20; // Number of consecutive negative frames to consider speech ended
+        this.preSpeechPadFrames = o.preSpeechPadFrames ?? 40; // Frames before onset to keep when speech is detected (reported on voice_start)
+        this.minSpeechFrames = o.minSpeechFrames ?? 3; // Minimum number of speech–positive frames required for a valid segment
         // Internal state for frame counting and speech segmentation
         this.speaking = false;
         this.speechFramesCount = 0;
@@ -119,7 +130,7 @@ export async function ensureAudioContextAndWorklets(basePath = "/") {
             this.speechFramesCount = 1;
 
             // Send voice_start event with current energy.
-            this.port.postMessage({ event: 'voice_start', energy });
+            this.port.postMessage({ event: 'voice_start', energy, padFrames: this.preSpeechPadFrames });
         } else {
             this.speechFramesCount++;
             this.port.postMessage({ event: 'voice_continue', energy });
@@ -133,6 +144,9 @@ export async function ensureAudioContextAndWorklets(basePath = "/") {
 
         if (this.speechFramesCount >= this.minSpeechFrames) {
             this.port.postMessage({ event: 'voice_stop' });
+        } else {
+            // too short to count as speech; lets the main thread close the segment it saw start
+            this.port.postMessage({ event: 'voice_misfire' });
         }
         this.resetSpeechState();
     }
@@ -159,7 +173,7 @@ registerProcessor('vad-worklet', VADProcessor);
         // let GC reclaim the blob URLs later; audio worklet keeps the module loaded
         return audioCtx;
     } catch (err) {
-        console.error("[ratt-lib] inline fallback failed:", err);
+        log.error("worklets: inline fallback failed", err);
         throw new Error(`Unable to load audio worklets (all strategies failed). Original error: ${err}`);
     }
 }
@@ -2,8 +2,17 @@ class RecorderWorklet extends AudioWorkletProcessor {
     process(inputs) {
         const input = inputs[0];
         if (input && input[0]) {
-            const samples = input[0];
-            this.port.postMessage(new Float32Array(samples));
+            const channels = input.length;
+            const samples = new Float32Array(input[0]);
+            // downmix multichannel input to mono
+            for (let c = 1; c < channels; c++) {
+                const ch = input[c];
+                for (let i = 0; i < samples.length; i++) samples[i] += ch[i];
+            }
+            if (channels > 1) {
+                for (let i = 0; i < samples.length; i++) samples[i] /= channels;
+            }
+            this.port.postMessage(samples);
         }
         return true;
     }
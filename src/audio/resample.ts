@@ -0,0 +1,153 @@
+// Streaming sample-rate conversion + channel downmix.
+// Band-limited (windowed-sinc) interpolation, so downsampling 44.1/48 kHz to
+// 16 kHz low-passes at the new Nyquist instead of aliasing.
+
+/** Average interleaved channels into mono. */
+export function downmixToMono(interleaved: Float32Array, channels: number): Float32Array {
+    if (channels <= 1) return interleaved;
+    const frames = Math.floor(interleaved.length / channels);
+    const out = new Float32Array(frames);
+    for (let f = 0; f < frames; f++) {
+        let sum = 0;
+        const base = f * channels;
+        for (let c = 0; c < channels; c++) sum += interleaved[base + c];
+        out[f] = sum / channels;
+    }
+    return out;
+}
+
+/**
+ * downmixToMono for a continuous stream whose chunks needn't end on a frame
+ * boundary: a trailing partial frame is carried over to the next process() call
+ * so the channels stay aligned.
+ */
+export class StreamingDownmixer {
+    readonly channels: number;
+
+    private carry: Float32Array;
+
+    constructor(channels: number) {
+        if (!(channels >= 1) || !Number.isInteger(channels)) throw new Error(`[ratt-lib] invalid channel count ${channels}`);
+        this.channels = channels;
+        this.carry = new Float32Array(0);
+    }
+
+    process(interleaved: Float32Array): Float32Array {
+        if (this.channels === 1) return interleaved;
+        let input = interleaved;
+        if (this.carry.length) {
+            input = new Float32Array(this.carry.length + interleaved.length);
+            input.set(this.carry);
+            input.set(interleaved, this.carry.length);
+        }
+        const rest = input.length % this.channels;
+        this.carry = input.slice(input.length - rest);
+        return downmixToMono(input, this.channels);
+    }
+}
+
+export function int16ToFloat32(input: Int16Array): Float32Array {
+    const out = new Float32Array(input.length);
+    for (let i = 0; i < input.length; i++) out[i] = input[i] / 32768;
+    return out;
+}
+
+const ZERO_CROSSINGS = 16; // filter half-width, in zero crossings of the sinc
+const TABLE_RES = 256; // kernel table entries per input sample
+
+/**
+ * Stateful resampler for a continuous mono stream. Keeps filter history between
+ * process() calls so chunk boundaries are seamless. The last few input samples
+ * are held back until the filter can see past them; call flush() at end of stream.
+ */
+export class StreamingResampler {
+    readonly inRate: number;
+    readonly outRate: number;
+
+    private readonly step: number; // input samples per output sample
+    private readonly halfWidth: number; // filter half-width in input samples
+    private readonly table: Float32Array;
+    private history: Float32Array;
+    private pos: number; // position of the next output sample within history
+
+    constructor(inRate: number, outRate: number) {
+        if (!(inRate > 0) || !(outRate > 0)) throw new Error(`[ratt-lib] invalid resample rates ${inRate} -> ${outRate}`);
+        this.inRate = inRate;
+        this.outRate = outRate;
+        this.step = inRate / outRate;
+
+        // cutoff relative to input Nyquist; widen the filter when downsampling
+        const cutoff = Math.min(1, outRate / inRate) * 0.97;
+        this.halfWidth = Math.ceil(ZERO_CROSSINGS / cutoff);
+
+        // precompute one side of the symmetric windowed-sinc kernel
+        const size = this.halfWidth * TABLE_RES + 2;
+        this.table = new Float32Array(size);
+        for (let i = 0; i < size; i++) {
+            const d = i / TABLE_RES;
+            const u = Math.min(1, d / this.halfWidth);
+            const window = 0.42 + 0.5 * Math.cos(Math.PI * u) + 0.08 * Math.cos(2 * Math.PI * u); // Blackman
+            const x = Math.PI * cutoff * d;
+            const sinc = d === 0 ? 1 : Math.sin(x) / x;
+            this.table[i] = cutoff * sinc * window;
+        }
+
+        this.history = new Float32Array(this.halfWidth); // zero pre-roll
+        this.pos = this.halfWidth;
+    }
+
+    get passthrough() {
+        return this.inRate === this.outRate;
+    }
+
+    process(input: Float32Array): Float32Array {
+        if (this.passthrough) return input;
+
+        const buf = new Float32Array(this.history.length + input.length);
+        buf.set(this.history);
+        buf.set(input, this.history.length);
+
+        const hw = this.halfWidth;
+        const maxOut = Math.max(0, Math.ceil((buf.length - hw - this.pos) / this.step));
+        const out = new Float32Array(maxOut);
+        let n = 0;
+        let pos = this.pos;
+
+        while (pos + hw < buf.length && n < maxOut) {
+            const center = Math.floor(pos);
+            const frac = pos - center;
+            let acc = 0;
+            const lo = center - hw + 1;
+            const hi = center + hw;
+            for (let k = lo; k <= hi; k++) {
+                const d = Math.abs(k - center - frac) * TABLE_RES;
+                const i = d | 0;
+                if (i >= this.table.length - 1) continue;
+                const w = this.table[i] + (this.table[i + 1] - this.table[i]) * (d - i);
+                acc += (k >= 0 ? buf[k] : 0) * w;
+            }
+            out[n++] = acc;
+            pos += this.step;
+        }
+
+        // keep just enough history for the next call's left filter wing
+        const drop = Math.max(0, Math.floor(pos) - hw);
+        this.history = buf.slice(drop);
+        this.pos = pos - drop;
+
+        return n === out.length ? out : out.subarray(0, n);
+    }
+
+    /** Emit the samples still held back by the filter delay. */
+    flush(): Float32Array {
+        if (this.passthrough) return new Float32Array(0);
+        const out = this.process(new Float32Array(this.halfWidth + Math.ceil(this.step)));
+        this.reset();
+        return out;
+    }
+
+    reset() {
+        this.history = new Float32Array(this.halfWidth);
+        this.pos = this.halfWidth;
+    }
+}
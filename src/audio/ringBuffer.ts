@@ -0,0 +1,116 @@
+export type SampleArray = Float32Array | Int16Array;
+
+type SampleArrayCtor<T extends SampleArray> = { new (length: number): T };
+
+/**
+ * Fixed-capacity sample FIFO. Storage is allocated once; writing past capacity
+ * overwrites the oldest samples, so memory stays constant no matter how long
+ * it is fed. Used for the pre-roll and for both outgoing audio queues.
+ */
+export class RingBuffer<T extends SampleArray> {
+    private readonly ctor: SampleArrayCtor<T>;
+    private readonly data: T;
+    private scratch: T | null = null; // reused when a peek wraps around the end
+    private start = 0; // index of the oldest sample
+    private size = 0;
+
+    constructor(ctor: SampleArrayCtor<T>, capacity: number) {
+        this.ctor = ctor;
+        this.data = new ctor(Math.max(1, Math.floor(capacity)));
+    }
+
+    get capacity() {
+        return this.data.length;
+    }
+
+    get length() {
+        return this.size;
+    }
+
+    /** Append samples; returns how many old samples were overwritten. */
+    write(chunk: T): number {
+        const cap = this.data.length;
+        // only the newest `cap` samples of an oversized chunk can survive
+        const src = chunk.length > cap ? (chunk.subarray(chunk.length - cap) as T) : chunk;
+        const skipped = chunk.length - src.length;
+
+        const overflow = Math.max(0, this.size + src.length - cap);
+        this.start = (this.start + overflow) % cap;
+        this.size -= overflow;
+
+        const end = (this.start + this.size) % cap;
+        const first = Math.min(src.length, cap - end);
+        this.data.set(src.subarray(0, first), end);
+        if (first < src.length) this.data.set(src.subarray(first), 0);
+        this.size += src.length;
+
+        return overflow + skipped;
+    }
+
+    /** Insert samples ahead of the oldest ones; returns how many of them didn't fit. */
+    unshift(chunk: T): number {
+        const cap = this.data.length;
+        const room = cap - this.size;
+        const src = chunk.length > room ? (chunk.subarray(chunk.length - room) as T) : chunk;
+
+        this.start = (this.start - src.length + cap) % cap;
+        const first = Math.min(src.length, cap - this.start);
+        this.data.set(src.subarray(0, first), this.start);
+        if (first < src.length) this.data.set(src.subarray(first), 0);
+        this.size += src.length;
+
+        return chunk.length - src.length;
+    }
+
+    /**
+     * The oldest `n` samples without consuming them. Zero-copy view when they are
+     * contiguous; otherwise copied into an internal scratch array. Only valid
+     * until the next write/peek.
+     */
+    peek(n: number): T {
+        const count = Math.min(Math.max(0, n), this.size);
+        const cap = this.data.length;
+        if (this.start + count <= cap) return this.data.subarray(this.start, this.start + count) as T;
+
+        if (!this.scratch || this.scratch.length < count) this.scratch = new this.ctor(count);
+        const out = this.scratch.subarray(0, count) as T;
+        const first = cap - this.start;
+        out.set(this.data.subarray(this.start));
+        out.set(this.data.subarray(0, count - first), first);
+        return out;
+    }
+
+    /** Consume the oldest `n` samples into a new array (or `into`, which must be large enough). */
+    read(n: number, into?: T): T {
+        const count = Math.min(Math.max(0, n), this.size);
+        const out = into ? (into.subarray(0, count) as T) : new this.ctor(count);
+        out.set(this.peek(count));
+        this.skip(count);
+        return out;
+    }
+
+    /** Drop the oldest `n` samples. */
+    skip(n: number) {
+        const count = Math.min(Math.max(0, n), this.size);
+        this.start = (this.start + count) % this.data.length;
+        this.size -= count;
+        if (this.size === 0) this.start = 0;
+    }
+
+    /** Copy of the newest `n` samples (all by default), oldest first. */
+    tail(n = this.size): T {
+        const count = Math.min(Math.max(0, n), this.size);
+        const out = new this.ctor(count);
+        const cap = this.data.length;
+        const from = (this.start + this.size - count) % cap;
+        const first = Math.min(count, cap - from);
+        out.set(this.data.subarray(from, from + first));
+        if (first < count) out.set(this.data.subarray(0, count - first), first);
+        return out;
+    }
+
+    clear() {
+        this.start = 0;
+        this.size = 0;
+    }
+}
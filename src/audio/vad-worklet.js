@@ -1,12 +1,13 @@
 class VADProcessor extends AudioWorkletProcessor {
-    constructor() {
+    constructor(options) {
         super();
-        // Configuration parameters (these are the defaults for Silero VAD)
-        this.positiveSpeechThreshold = 0.5; // Above this, treat frame as speech–positive
-        this.negativeSpeechThreshold = 0.35; // Below this, treat frame as speech–negative
-        this.redemptionFrames = 20; // Number of consecutive negative frames to consider speech ended
-        this.preSpeechPadFrames = 1; // (Optional) number of frames to prepend to a detected segment
-        this.minSpeechFrames = 3; // Minimum number of speech–positive frames required for a valid segment
+        // Configuration parameters (these are the defaults for Silero VAD), overridable via processorOptions
+        const o = (options && options.processorOptions) || {};
+        this.positiveSpeechThreshold = o.positiveSpeechThreshold ?? 0.5; // Above this, treat frame as speech–positive
+        this.negativeSpeechThreshold = o.negativeSpeechThreshold ?? 0.35; // Below this, treat frame as speech–negative
+        this.redemptionFrames = o.redemptionFrames ?? 20; // Number of consecutive negative frames to consider speech ended
+        this.preSpeechPadFrames = o.preSpeechPadFrames ?? 40; // Frames before onset to keep when speech is detected (reported on voice_start)
+        this.minSpeechFrames = o.minSpeechFrames ?? 3; // Minimum number of speech–positive frames required for a valid segment
         // Internal state for frame counting and speech segmentation
         this.speaking = false;
         this.speechFramesCount = 0;
@@ -57,7 +58,7 @@ class VADProcessor extends AudioWorkletProcessor {
             this.speechFramesCount = 1;
 
             // Send voice_start event with current energy.
-            this.port.postMessage({ event: 'voice_start', energy });
+            this.port.postMessage({ event: 'voice_start', energy, padFrames: this.preSpeechPadFrames });
         } else {
             this.speechFramesCount++;
             this.port.postMessage({ event: 'voice_continue', energy });
@@ -71,6 +72,9 @@ class VADProcessor extends AudioWorkletProcessor {
 
         if (this.speechFramesCount >= this.minSpeechFrames) {
             this.port.postMessage({ event: 'voice_stop' });
+        } else {
+            // too short to count as speech; lets the main thread close the segment it saw start
+            this.port.postMessage({ event: 'voice_misfire' });
         }
         this.resetSpeechState();
     }
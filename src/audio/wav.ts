@@ -0,0 +1,28 @@
+// Minimal RIFF/WAVE encoding for 16-bit PCM.
+
+/** Wrap 16-bit little-endian PCM samples in a canonical 44-byte WAV header. */
+export function encodeWav(samples: Int16Array, sampleRate: number, channels = 1): Uint8Array {
+    const dataBytes = samples.length * 2;
+    const out = new Uint8Array(44 + dataBytes);
+    const view = new DataView(out.buffer);
+    const ascii = (offset: number, text: string) => {
+        for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+    };
+
+    ascii(0, "RIFF");
+    view.setUint32(4, 36 + dataBytes, true);
+    ascii(8, "WAVE");
+    ascii(12, "fmt ");
+    view.setUint32(16, 16, true); // fmt chunk size
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, channels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * channels * 2, true); // byte rate
+    view.setUint16(32, channels * 2, true); // block align
+    view.setUint16(34, 16, true); // bits per sample
+    ascii(36, "data");
+    view.setUint32(40, dataBytes, true);
+
+    for (let i = 0; i < samples.length; i++) view.setInt16(44 + i * 2, samples[i], true);
+    return out;
+}
@@ -0,0 +1,177 @@
+// Streaming WAV (RIFF/WAVE) decoder: feed bytes as they arrive, get Float32
+// samples back. Chunks may come in any order; LIST/fact/etc. are skipped.
+
+import type { AudioSource } from "../types";
+import { sourceChunks } from "../utils/audioChunks";
+
+export interface WavFormat {
+    sampleRate: number;
+    channels: number;
+    /** 8/16/24/32 for integer PCM, 32/64 for float */
+    bitsPerSample: number;
+    float: boolean;
+}
+
+export interface WavChunk {
+    /** interleaved samples in [-1, 1] */
+    samples: Float32Array;
+    format: WavFormat;
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+const UNKNOWN_SIZE = 0xffffffff; // written by streaming encoders that can't seek back
+
+type State = "riff" | "header" | "fmt" | "data" | "skip";
+
+const tag = (b: Uint8Array, at: number) => String.fromCharCode(b[at], b[at + 1], b[at + 2], b[at + 3]);
+
+/**
+ * Incremental WAV parser. push() returns the samples decodable so far; audio
+ * that arrives before the `fmt ` chunk is held until it does. Throws on
+ * anything that isn't little-endian PCM/float WAV.
+ */
+export class WavStreamParser {
+    private _format: WavFormat | null = null;
+    private pending: Uint8Array = new Uint8Array(0); // bytes not consumed yet
+    private deferred: Uint8Array[] = []; // data seen before fmt
+    private state: State = "riff";
+    private remaining = 0; // bytes left in the current chunk
+    private pad = 0; // RIFF chunks are word-aligned
+
+    get format(): WavFormat | null {
+        return this._format;
+    }
+
+    push(bytes: Uint8Array): Float32Array[] {
+        this.pending = this.pending.length ? concat(this.pending, bytes) : bytes;
+        const out: Float32Array[] = [];
+        let offset = 0;
+
+        while (true) {
+            const available = this.pending.length - offset;
+            if (this.state === "riff") {
+                if (available < 12) break;
+                if (tag(this.pending, offset) !== "RIFF" || tag(this.pending, offset + 8) !== "WAVE") {
+                    throw new Error("[ratt-lib] not a RIFF/WAVE file");
+                }
+                offset += 12;
+                this.state = "header";
+            } else if (this.state === "header") {
+                if (available < 8) break;
+                const id = tag(this.pending, offset);
+                const size = new DataView(this.pending.buffer, this.pending.byteOffset + offset + 4, 4).getUint32(0, true);
+                offset += 8;
+                this.remaining = id === "data" && size === UNKNOWN_SIZE ? Infinity : size;
+                this.pad = size & 1 && size !== UNKNOWN_SIZE ? 1 : 0;
+                this.state = id === "fmt " ? "fmt" : id === "data" ? "data" : "skip";
+                if (this.state === "skip") this.remaining += this.pad;
+            } else if (this.state === "fmt") {
+                if (available < this.remaining + this.pad) break;
+                this._format = parseFmt(this.pending.subarray(offset, offset + this.remaining));
+                offset += this.remaining + this.pad;
+                this.state = "header";
+                if (this.deferred.length) out.push(this.decodeDeferred(this._format));
+            } else if (this.state === "data") {
+                const frame = this._format ? (this._format.bitsPerSample / 8) * this._format.channels : 1;
+                let take = Math.min(this.remaining, available);
+                if (this._format) take -= take % frame;
+                if (take > 0) {
+                    const bytesOut = this.pending.subarray(offset, offset + take);
+                    if (this._format) out.push(decode(bytesOut, this._format));
+                    else this.deferred.push(bytesOut.slice());
+                    offset += take;
+                    this.remaining -= take;
+                }
+                if (this.remaining > 0) break;
+                this.remaining = this.pad;
+                this.state = "skip";
+            } else {
+                const take = Math.min(this.remaining, available);
+                offset += take;
+                this.remaining -= take;
+                if (this.remaining > 0) break;
+                this.state = "header";
+            }
+        }
+
+        this.pending = offset >= this.pending.length ? new Uint8Array(0) : this.pending.slice(offset);
+        return out;
+    }
+
+    private decodeDeferred(format: WavFormat): Float32Array {
+        const bytes = this.deferred.reduce(concat);
+        this.deferred = [];
+        const frame = (format.bitsPerSample / 8) * format.channels;
+        return decode(bytes.subarray(0, bytes.length - (bytes.length % frame)), format);
+    }
+
+    /** Call at end of input: throws if the file never described its format. */
+    end() {
+        if (!this._format) throw new Error("[ratt-lib] WAV ended without a fmt chunk");
+    }
+}
+
+/** Decode a whole WAV file. */
+export function decodeWav(bytes: Uint8Array): WavChunk {
+    const parser = new WavStreamParser();
+    const parts = parser.push(bytes);
+    parser.end();
+    if (parts.length === 1) return { samples: parts[0], format: parser.format! };
+
+    const samples = new Float32Array(parts.reduce((n, p) => n + p.length, 0));
+    let at = 0;
+    for (const p of parts) {
+        samples.set(p, at);
+        at += p.length;
+    }
+    return { samples, format: parser.format! };
+}
+
+/** Decode a WAV buffer or byte stream chunk by chunk. */
+export async function* wavChunks(source: AudioSource): AsyncGenerator<WavChunk> {
+    const parser = new WavStreamParser();
+    for await (const chunk of sourceChunks(source)) {
+        if (!(chunk instanceof Uint8Array)) throw new TypeError("[ratt-lib] WAV sources must yield bytes (Buffer/Uint8Array)");
+        for (const samples of parser.push(chunk)) yield { samples, format: parser.format! };
+    }
+    parser.end();
+}
+
+function parseFmt(b: Uint8Array): WavFormat {
+    if (b.length < 16) throw new Error("[ratt-lib] WAV fmt chunk is too short");
+    const view = new DataView(b.buffer, b.byteOffset, b.byteLength);
+    let formatTag = view.getUint16(0, true);
+    const channels = view.getUint16(2, true);
+    const sampleRate = view.getUint32(4, true);
+    const bitsPerSample = view.getUint16(14, true);
+    if (formatTag === WAVE_FORMAT_EXTENSIBLE && b.length >= 26) formatTag = view.getUint16(24, true); // SubFormat GUID starts with the tag
+
+    const float = formatTag === WAVE_FORMAT_IEEE_FLOAT;
+    const supported = float ? bitsPerSample === 32 || bitsPerSample === 64 : formatTag === WAVE_FORMAT_PCM && [8, 16, 24, 32].includes(bitsPerSample);
+    if (!supported) throw new Error(`[ratt-lib] unsupported WAV encoding (format ${formatTag}, ${bitsPerSample}-bit)`);
+    if (!channels || !sampleRate) throw new Error("[ratt-lib] WAV fmt chunk has no channels or sample rate");
+    return { sampleRate, channels, bitsPerSample, float };
+}
+
+function decode(b: Uint8Array, { bitsPerSample, float }: WavFormat): Float32Array {
+    const view = new DataView(b.buffer, b.byteOffset, b.byteLength);
+    const width = bitsPerSample / 8;
+    const out = new Float32Array(b.length / width);
+    for (let i = 0, at = 0; i < out.length; i++, at += width) {
+        if (float) out[i] = width === 4 ? view.getFloat32(at, true) : view.getFloat64(at, true);
+        else if (width === 1) out[i] = (b[at] - 128) / 128; // 8-bit is unsigned
+        else if (width === 2) out[i] = view.getInt16(at, true) / 32768;
+        else if (width === 3) out[i] = ((b[at] | (b[at + 1] << 8) | (b[at + 2] << 16)) << 8 >> 8) / 8388608;
+        else out[i] = view.getInt32(at, true) / 2147483648;
+    }
+    return out;
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+    const out = new Uint8Array(a.length + b.length);
+    out.set(a);
+    out.set(b, a.length);
+    return out;
+}
@@ -0,0 +1,277 @@
+#!/usr/bin/env node
+// ratt: test a RATT endpoint from the command line.
+//   ratt transcribe <file|-> --url <ws-url> [--details details.json] [--json]
+//   ratt ping --url <ws-url>
+
+import fs from "node:fs";
+import { parseArgs } from "node:util";
+import { AssistantClient } from "./AssistantClient";
+import { RattSessionError } from "./errors";
+import { AssistantEvent } from "./types";
+import type { LoggerOptions } from "./types";
+
+const USAGE = `Usage:
+  ratt transcribe <file|-> --url <ws-url> [options]
+      --details <file>     JSON sent as session details (requestId is added)
+      --format <pcm|wav>   input format (default: sniffed from the RIFF header)
+      --rate <hz>          raw PCM sample rate (default 16000)
+      --channels <n>       raw PCM channel count (default 1)
+      --realtime           send at playback speed instead of as fast as allowed
+      --timeout <ms>       give up waiting for start_audio / the final transcript (default 10000)
+  ratt ping --url <ws-url> [--count <n>] [--timeout <ms>]
+
+Common:
+      --json               one JSON object per line on stdout
+      --verbose            library debug output on stderr
+      -h, --help
+
+Exit codes: 0 ok, 1 server error / socket closed / timeout, 2 bad usage.`;
+
+const PING_INTERVAL_MS = 1000;
+
+class UsageError extends Error {}
+
+type Output = (record: Record<string, unknown>, text?: string) => void;
+
+async function main(argv: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            url: { type: "string" },
+            details: { type: "string" },
+            format: { type: "string" },
+            rate: { type: "string" },
+            channels: { type: "string" },
+            realtime: { type: "boolean", default: false },
+            timeout: { type: "string" },
+            count: { type: "string" },
+            json: { type: "boolean", default: false },
+            verbose: { type: "boolean", default: false },
+            help: { type: "boolean", short: "h", default: false },
+        },
+    });
+    const [command, input] = positionals;
+    if (values.help || !command) {
+        process.stdout.write(USAGE + "\n");
+        return values.help ? 0 : 2;
+    }
+
+    // library logs go to stderr so stdout stays clean for results
+    const stderr = console.error.bind(console);
+    const logger: LoggerOptions = values.verbose ? { sink: { debug: stderr, info: stderr, warn: stderr, error: stderr }, level: "debug" } : {};
+
+    const out: Output = values.json
+        ? (record) => process.stdout.write(JSON.stringify(record) + "\n")
+        : (_record, text) => text !== undefined && process.stdout.write(text);
+
+    if (!values.url) throw new UsageError("--url is required");
+    const timeoutMs = toNumber(values.timeout, "--timeout") ?? 10000;
+
+    switch (command) {
+        case "transcribe": {
+            if (!input) throw new UsageError("transcribe needs a file (or - for stdin)");
+            const format = values.format;
+            if (format !== undefined && format !== "pcm" && format !== "wav") throw new UsageError("--format must be pcm or wav");
+            return transcribe(out, {
+                url: values.url,
+                logger,
+                input,
+                details: values.details ? readDetails(values.details) : {},
+                format,
+                sampleRate: toNumber(values.rate, "--rate"),
+                channels: toNumber(values.channels, "--channels"),
+                realtime: values.realtime,
+                timeoutMs,
+                live: !values.json && process.stdout.isTTY === true,
+            });
+        }
+        case "ping":
+            return ping(out, { url: values.url, count: toNumber(values.count, "--count") ?? 3, timeoutMs, logger });
+        default:
+            throw new UsageError(`unknown command "${command}"`);
+    }
+}
+
+async function transcribe(
+    out: Output,
+    opts: {
+        url: string;
+        logger: LoggerOptions;
+        input: string;
+        details: Record<string, unknown>;
+        format?: "pcm" | "wav";
+        sampleRate?: number;
+        channels?: number;
+        realtime: boolean;
+        timeoutMs: number;
+        live: boolean;
+    },
+): Promise<number> {
+    const client = new AssistantClient({
+        url: opts.url,
+        requestId: { current: "" },
+        rattAgentDetails: opts.details,
+        externalAudio: true,
+        transcript: { reveal: false },
+        reconnect: false,
+        logger: opts.logger,
+    });
+
+    client.on(AssistantEvent.TRANSCRIPTION, ({ detail }) => {
+        if (!detail.text) return; // utterance reset, or an empty final on teardown (e.g. after a server error)
+        const type = detail.final ? "final" : "interim";
+        const record = { type, text: detail.text, ...(detail.delta !== undefined && { delta: detail.delta }) };
+        if (detail.final) out(record, opts.live ? `\r\x1b[K${detail.text}\n` : `${detail.text}\n`);
+        else out(record, opts.live ? `\r\x1b[K${detail.text}` : undefined);
+    });
+
+    const startedAt = Date.now();
+    const stream = opts.input === "-" ? process.stdin : fs.createReadStream(opts.input);
+    try {
+        const { format, source } = await sniffFormat(stream, opts.format);
+        const text = await client.pipeFrom(source, {
+            format,
+            sampleRate: opts.sampleRate,
+            channels: opts.channels,
+            realtime: opts.realtime,
+            timeoutMs: opts.timeoutMs,
+        });
+        out({ type: "done", text, durationMs: Date.now() - startedAt });
+        return 0;
+    } catch (err) {
+        reportError(out, err);
+        return 1;
+    } finally {
+        stream.destroy();
+        client.closeSocket();
+    }
+}
+
+/** Connect a client and report the round trips of its first `count` heartbeats. */
+async function ping(out: Output, { url, count, timeoutMs, logger }: { url: string; count: number; timeoutMs: number; logger: LoggerOptions }): Promise<number> {
+    const client = new AssistantClient({
+        url,
+        requestId: { current: "" },
+        externalAudio: true,
+        reconnect: false,
+        pingIntervalMs: PING_INTERVAL_MS,
+        maxMissedPongs: Math.max(1, Math.ceil(timeoutMs / PING_INTERVAL_MS)), // the client closes the socket after timeoutMs of silence
+        logger,
+    });
+    const startedAt = performance.now();
+    try {
+        await withTimeout(client.connect(), timeoutMs, "connect").catch((err) => {
+            throw err instanceof RattSessionError ? err : new RattSessionError("socket-closed", "could not connect", err);
+        });
+        const connectMs = performance.now() - startedAt;
+        out({ type: "connected", url, connectMs: round(connectMs) }, `connected to ${url} in ${round(connectMs)} ms\n`);
+
+        const rtts: number[] = [];
+        for (let seq = 1; seq <= count; seq++) {
+            const { rttMs, quality } = await nextHeartbeat(client, timeoutMs);
+            rtts.push(rttMs);
+            out({ type: "heartbeat", seq, rttMs: round(rttMs), quality }, `heartbeat ${seq}: ${round(rttMs)} ms (${quality})\n`);
+        }
+        if (rtts.length) {
+            const avg = rtts.reduce((a, b) => a + b, 0) / rtts.length;
+            const summary = { min: round(Math.min(...rtts)), avg: round(avg), max: round(Math.max(...rtts)), quality: client.connectionQuality };
+            out({ type: "done", ...summary }, `rtt min/avg/max = ${summary.min}/${summary.avg}/${summary.max} ms, quality ${summary.quality}\n`);
+        }
+        return 0;
+    } catch (err) {
+        reportError(out, err);
+        return 1;
+    } finally {
+        client.closeSocket();
+    }
+}
+
+/** The next echoed heartbeat; a closed socket shows up once the wait runs out. */
+async function nextHeartbeat(client: AssistantClient, timeoutMs: number) {
+    const since = Date.now();
+    try {
+        return await client.waitFor(AssistantEvent.HEARTBEAT, { timeout: PING_INTERVAL_MS + timeoutMs });
+    } catch (err) {
+        const conn = client.getStats().connection;
+        // after timeoutMs without an echo the client closes the socket itself (maxMissedPongs)
+        const closedEarly = conn?.closedAt != null && conn.closedAt - since < timeoutMs;
+        if (!closedEarly) throw err;
+        throw new RattSessionError("socket-closed", `socket closed (code ${conn.closeCode ?? "?"})`);
+    }
+}
+
+/** Pick wav/pcm from the RIFF magic unless told, without losing the first chunk. */
+async function sniffFormat(stream: AsyncIterable<Uint8Array>, forced?: "pcm" | "wav") {
+    const it = stream[Symbol.asyncIterator]();
+    const first = await it.next();
+    const head: Uint8Array | null = first.done ? null : first.value;
+    const magic = head && head.length >= 4 ? String.fromCharCode(head[0], head[1], head[2], head[3]) : "";
+    const format: "pcm" | "wav" = forced ?? (magic === "RIFF" ? "wav" : "pcm");
+    const source = (async function* () {
+        if (head) yield head;
+        while (true) {
+            const next = await it.next();
+            if (next.done) return;
+            yield next.value;
+        }
+    })();
+    return { format, source };
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, what: string): Promise<T> {
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new RattSessionError("timeout", `timed out after ${ms}ms waiting for ${what}`)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function reportError(out: Output, err: unknown) {
+    const code = err instanceof RattSessionError ? err.code : "error";
+    const message = err instanceof Error ? err.message : String(err);
+    const detail = err instanceof RattSessionError && err.cause !== undefined ? describe(err.cause) : undefined;
+    out({ type: "error", code, message, ...(detail !== undefined && { detail }) });
+    process.stderr.write(`ratt: ${message}${detail !== undefined ? ` (${typeof detail === "string" ? detail : JSON.stringify(detail)})` : ""}\n`);
+}
+
+function describe(cause: unknown): unknown {
+    if (cause instanceof Error) return cause.message;
+    if (typeof cause === "object" && cause !== null && "code" in cause && "reason" in cause) {
+        return { code: (cause as CloseEvent).code, reason: (cause as CloseEvent).reason }; // close event
+    }
+    if (typeof cause === "object" && cause !== null && typeof (cause as ErrorEvent).message === "string") return (cause as ErrorEvent).message; // error event
+    return cause;
+}
+
+function readDetails(file: string): Record<string, unknown> {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+    } catch (err) {
+        throw new UsageError(`could not read --details ${file}: ${(err as Error).message}`);
+    }
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) throw new UsageError("--details must hold a JSON object");
+    return parsed as Record<string, unknown>;
+}
+
+function toNumber(value: string | undefined, flag: string): number | undefined {
+    if (value === undefined) return undefined;
+    const n = Number(value);
+    if (!Number.isFinite(n) || n <= 0) throw new UsageError(`${flag} must be a positive number`);
+    return n;
+}
+
+const round = (ms: number) => Math.round(ms * 10) / 10;
+
+main(process.argv.slice(2)).then(
+    (code) => process.exit(code),
+    (err) => {
+        if (err instanceof UsageError || (err as { code?: string })?.code?.startsWith("ERR_PARSE_ARGS")) {
+            process.stderr.write(`ratt: ${(err as Error).message}\n\n${USAGE}\n`);
+            process.exit(2);
+        }
+        process.stderr.write(`ratt: ${(err as Error)?.stack ?? err}\n`);
+        process.exit(1);
+    },
+);
@@ -0,0 +1,15 @@
+export type SessionErrorCode = "timeout" | "aborted" | "cancelled" | "server-error" | "socket-closed" | "start-failed" | "auth-failed" | "unsupported" | "backpressure";
+
+/** Why a promise-based session call (start/finish/transcribe) failed. */
+export class RattSessionError extends Error {
+    readonly code: SessionErrorCode;
+    /** underlying error / server payload, when there is one */
+    readonly cause?: unknown;
+
+    constructor(code: SessionErrorCode, message: string, cause?: unknown) {
+        super(`[ratt-lib] ${message}`);
+        this.name = "RattSessionError";
+        this.code = code;
+        this.cause = cause;
+    }
+}
@@ -1,2 +1,6 @@
 export * from "./types";
 export { AssistantClient } from "./AssistantClient";
+export { TranscriptManager } from "./TranscriptManager";
+export * from "./protocol";
+export * from "./errors";
+export * from "./audio/wavReader";
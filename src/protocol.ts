@@ -0,0 +1,164 @@
+// RATT wire protocol: JSON text frames exchanged with audioStreamingWebsocket.
+// Audio itself travels as binary PCM16 frames and is not part of this codec.
+
+/* ---------- server -> client ---------- */
+/** `seq`/`ts` are the client's values echoed back, when the server does so */
+export type HeartbeatMessage = { type: "heartbeat"; seq?: number; ts?: number };
+export type ServerErrorMessage = { type: "error"; error: unknown };
+export type StartAudioMessage = { type: "start_audio" };
+export type StreamingDataMessage = { type: "streaming_data"; previous: string; next: string };
+export type TranscriptionMessage = { type: "transcription"; text: string };
+export type StopAudioMessage = { type: "stop_audio" };
+export type DisconnectMessage = { type: "disconnect" };
+/** Anything we don't know about (custom backend messages). `kind` is its `type` field or first key. */
+export type UnknownServerMessage = { type: "unknown"; kind: string | undefined; data: Record<string, unknown> };
+
+export type ServerMessage =
+    | HeartbeatMessage
+    | ServerErrorMessage
+    | StartAudioMessage
+    | StreamingDataMessage
+    | TranscriptionMessage
+    | StopAudioMessage
+    | DisconnectMessage
+    | UnknownServerMessage;
+
+/* ---------- client -> server ---------- */
+export type SessionDetails = Record<string, any> & { requestId: string };
+
+/** `seq` numbers heartbeats per connection and `ts` is the send time (epoch ms); servers that echo them get exact round trips */
+export type ClientHeartbeatMessage = { type: "heartbeat"; seq?: number; ts?: number };
+
+export type ClientMessage = { type: "details"; details: SessionDetails } | ClientHeartbeatMessage | { type: "disconnect" };
+
+/* ---------- errors ---------- */
+export type ProtocolErrorCode = "invalid-json" | "invalid-message";
+
+export class RattProtocolError extends Error {
+    readonly code: ProtocolErrorCode;
+    /** the offending frame (raw text or parsed value) */
+    readonly frame: unknown;
+
+    constructor(code: ProtocolErrorCode, message: string, frame: unknown) {
+        super(`[ratt-lib] ${message}`);
+        this.name = "RattProtocolError";
+        this.code = code;
+        this.frame = frame;
+    }
+}
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+/** `{ heartbeat: true }` plus seq/ts when present (both directions use the same shape) */
+function heartbeatFrame({ seq, ts }: { seq?: number; ts?: number }) {
+    return JSON.stringify({ heartbeat: true, ...(seq !== undefined && { seq }), ...(ts !== undefined && { ts }) });
+}
+
+function readHeartbeat(json: Record<string, any>): HeartbeatMessage {
+    return { type: "heartbeat", ...(typeof json.seq === "number" && { seq: json.seq }), ...(typeof json.ts === "number" && { ts: json.ts }) };
+}
+
+/** Parse a text frame and validate it. Throws RattProtocolError on malformed input. */
+export function decodeServerMessage(frame: string): ServerMessage[] {
+    let json: unknown;
+    try {
+        json = JSON.parse(frame);
+    } catch {
+        throw new RattProtocolError("invalid-json", "server frame is not valid JSON", frame);
+    }
+    return validateServerMessage(json);
+}
+
+/**
+ * Validate an already-parsed server frame. A single frame may carry several
+ * messages (e.g. a final `transcription` together with `stop_audio` and
+ * `disconnect`); they are returned in the order they should be handled.
+ */
+export function validateServerMessage(json: unknown): ServerMessage[] {
+    if (!isObject(json)) throw new RattProtocolError("invalid-message", "server frame must be a JSON object", json);
+
+    if (json.heartbeat === true) return [readHeartbeat(json)];
+    if (json.error) return [{ type: "error", error: json.error }];
+    if (json.start_audio) return [{ type: "start_audio" }];
+
+    if (json.streaming_data !== undefined) {
+        const sd = json.streaming_data;
+        const prev = sd?.previous_transcription;
+        if (!isObject(sd) || typeof sd.new_transcription !== "string" || (prev != null && typeof prev !== "string")) {
+            throw new RattProtocolError("invalid-message", "streaming_data needs string previous_transcription/new_transcription", json);
+        }
+        return [{ type: "streaming_data", previous: prev ?? "", next: sd.new_transcription }];
+    }
+
+    const out: ServerMessage[] = [];
+    if (json.transcription !== undefined && json.transcription !== null) {
+        if (typeof json.transcription !== "string") {
+            throw new RattProtocolError("invalid-message", "transcription must be a string", json);
+        }
+        out.push({ type: "transcription", text: json.transcription });
+    }
+    if (json.stop_audio) out.push({ type: "stop_audio" });
+    if (json.disconnect) out.push({ type: "disconnect" });
+    if (out.length) return out;
+
+    const kind = typeof json.type === "string" ? json.type : Object.keys(json)[0];
+    return [{ type: "unknown", kind, data: json }];
+}
+
+/** Serialize a client message. Throws RattProtocolError if it is malformed. */
+export function encodeClientMessage(msg: ClientMessage): string {
+    switch (msg.type) {
+        case "details":
+            if (!isObject(msg.details) || typeof msg.details.requestId !== "string" || !msg.details.requestId) {
+                throw new RattProtocolError("invalid-message", "details must be an object with a requestId", msg);
+            }
+            return JSON.stringify(msg.details);
+        case "heartbeat":
+            return heartbeatFrame(msg);
+        case "disconnect":
+            return JSON.stringify({ disconnect: true });
+        default:
+            throw new RattProtocolError("invalid-message", `unknown client message type "${(msg as any)?.type}"`, msg);
+    }
+}
+
+/* ---------- reverse direction (mock servers, proxies) ---------- */
+
+/** Serialize a server message the way audioStreamingWebsocket sends it. */
+export function encodeServerMessage(msg: ServerMessage): string {
+    switch (msg.type) {
+        case "heartbeat":
+            return heartbeatFrame(msg);
+        case "error":
+            return JSON.stringify({ error: msg.error });
+        case "start_audio":
+            return JSON.stringify({ start_audio: true });
+        case "streaming_data":
+            return JSON.stringify({ streaming_data: { previous_transcription: msg.previous, new_transcription: msg.next } });
+        case "transcription":
+            return JSON.stringify({ transcription: msg.text });
+        case "stop_audio":
+            return JSON.stringify({ stop_audio: true });
+        case "disconnect":
+            return JSON.stringify({ disconnect: true });
+        case "unknown":
+            return JSON.stringify(msg.data);
+        default:
+            throw new RattProtocolError("invalid-message", `unknown server message type "${(msg as any)?.type}"`, msg);
+    }
+}
+
+/** Parse a client text frame. Throws RattProtocolError on malformed input. */
+export function decodeClientMessage(frame: string): ClientMessage {
+    let json: unknown;
+    try {
+        json = JSON.parse(frame);
+    } catch {
+        throw new RattProtocolError("invalid-json", "client frame is not valid JSON", frame);
+    }
+    if (!isObject(json)) throw new RattProtocolError("invalid-message", "client frame must be a JSON object", json);
+    if (json.heartbeat === true) return readHeartbeat(json);
+    if (json.disconnect === true) return { type: "disconnect" };
+    if (typeof json.requestId === "string" && json.requestId) return { type: "details", details: json as SessionDetails };
+    throw new RattProtocolError("invalid-message", "unrecognized client frame", json);
+}
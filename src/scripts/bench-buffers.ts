@@ -0,0 +1,97 @@
+// Benchmark: legacy concat-per-chunk audio buffering vs the preallocated RingBuffer.
+// Simulates the mic path (128-sample worklet messages, ~125/s at 16 kHz) over a
+// 10-minute session and reports time spent buffering plus bytes allocated.
+// Run with: npm run bench
+
+import { RingBuffer } from "../audio/ringBuffer";
+import { floatTo16BitPCM } from "../audio/floatTo16BitPCM";
+
+const RATE = 16000;
+const QUANTUM = 128;
+const SESSION_MS = 10 * 60 * 1000;
+
+type Scenario = { name: string; frameMs: number; gateClosedMs: number };
+
+const scenarios: Scenario[] = [
+    { name: "1000 ms frames", frameMs: 1000, gateClosedMs: 0 },
+    { name: "40 ms frames", frameMs: 40, gateClosedMs: 0 },
+    { name: "1000 ms frames, start_audio after 30 s", frameMs: 1000, gateClosedMs: 30000 },
+];
+
+type Result = { ms: number; allocated: number; frames: number };
+
+function makeInput() {
+    const chunk = new Float32Array(QUANTUM);
+    for (let i = 0; i < QUANTUM; i++) chunk[i] = Math.sin(i / 8) * 0.25;
+    return chunk;
+}
+
+/** The pre-ring implementation: grow by concatenation, send by slicing. */
+function runLegacy({ frameMs, gateClosedMs }: Scenario, input: Float32Array): Result {
+    const frameSamples = (frameMs * RATE) / 1000;
+    const chunks = (SESSION_MS * RATE) / 1000 / QUANTUM;
+    const gateChunk = (gateClosedMs * RATE) / 1000 / QUANTUM;
+    let rolling = new Float32Array(0);
+    let allocated = 0;
+    let frames = 0;
+
+    const t0 = performance.now();
+    for (let c = 0; c < chunks; c++) {
+        const posted = new Float32Array(input); // what the worklet posts
+        const combined = new Float32Array(rolling.length + posted.length);
+        combined.set(rolling);
+        combined.set(posted, rolling.length);
+        rolling = combined;
+        allocated += posted.byteLength + combined.byteLength;
+
+        if (c < gateChunk) continue;
+        while (rolling.length >= frameSamples) {
+            const frame = rolling.slice(0, frameSamples);
+            const pcm = floatTo16BitPCM(frame);
+            rolling = rolling.slice(frameSamples);
+            allocated += frame.byteLength + pcm.byteLength + rolling.byteLength;
+            frames++;
+        }
+    }
+    return { ms: performance.now() - t0, allocated, frames };
+}
+
+/** Current implementation: write into a preallocated ring, convert frames straight out of it. */
+function runRing({ frameMs, gateClosedMs }: Scenario, input: Float32Array): Result {
+    const frameSamples = (frameMs * RATE) / 1000;
+    const chunks = (SESSION_MS * RATE) / 1000 / QUANTUM;
+    const gateChunk = (gateClosedMs * RATE) / 1000 / QUANTUM;
+    const rolling = new RingBuffer(Float32Array, 60 * RATE); // roomy enough that nothing is dropped
+    let allocated = rolling.capacity * 4;
+    let frames = 0;
+
+    const t0 = performance.now();
+    for (let c = 0; c < chunks; c++) {
+        const posted = new Float32Array(input);
+        rolling.write(posted);
+        allocated += posted.byteLength;
+
+        if (c < gateChunk) continue;
+        while (rolling.length >= frameSamples) {
+            const view = rolling.peek(frameSamples);
+            const pcm = floatTo16BitPCM(view);
+            rolling.skip(view.length);
+            allocated += pcm.byteLength;
+            frames++;
+        }
+    }
+    return { ms: performance.now() - t0, allocated, frames };
+}
+
+const mb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const input = makeInput();
+console.log(`10-minute session, ${QUANTUM}-sample chunks at ${RATE} Hz\n`);
+for (const scenario of scenarios) {
+    const legacy = runLegacy(scenario, input);
+    const ring = runRing(scenario, input);
+    console.log(scenario.name);
+    console.log(`  legacy: ${legacy.ms.toFixed(0).padStart(6)} ms  ${mb(legacy.allocated).padStart(10)} allocated  (${legacy.frames} frames)`);
+    console.log(`  ring:   ${ring.ms.toFixed(0).padStart(6)} ms  ${mb(ring.allocated).padStart(10)} allocated  (${ring.frames} frames)`);
+    console.log(`  => ${(legacy.ms / Math.max(ring.ms, 0.001)).toFixed(1)}x faster, ${(legacy.allocated / ring.allocated).toFixed(1)}x less allocation\n`);
+}
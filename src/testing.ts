@@ -0,0 +1,290 @@
+// ratt-lib/testing: an in-process stand-in for audioStreamingWebsocket (Node
+// only), so code built on AssistantClient can be tested with no network.
+// Replies follow a small script by default; callbacks and MockConnection
+// helpers drive it by hand, and everything the client sends is recorded.
+
+import type { IncomingMessage } from "node:http";
+import { WebSocketServer } from "ws";
+import type { RawData, WebSocket } from "ws";
+import { decodeClientMessage, encodeServerMessage } from "./protocol";
+import type { ClientMessage, ServerMessage, SessionDetails } from "./protocol";
+
+export interface MockScript {
+    /** words sent as streaming_data, one per audio frame received */
+    interim?: string[];
+    /** final transcription when the utterance ends (default: the interim words) */
+    final?: string;
+    /** answer details with `{ error }` instead of start_audio */
+    error?: unknown;
+    /** wait this long before start_audio */
+    startDelayMs?: number;
+    /** end the utterance server-side (transcription + stop_audio + disconnect) after this many frames */
+    stopAfterFrames?: number;
+    /** drop the socket without a close frame (code 1006) after this many frames */
+    dropAfterFrames?: number;
+}
+
+export interface MockServerOptions {
+    /** 0 (default) picks a free port */
+    port?: number;
+    /** default 127.0.0.1 */
+    host?: string;
+    script?: MockScript;
+    /** no scripted replies; drive every connection from the callbacks */
+    manual?: boolean;
+    /** delay every server frame by this many ms (per connection, adjustable) */
+    latencyMs?: number;
+    /** answer client heartbeats (default true); false simulates missed pongs */
+    echoHeartbeats?: boolean;
+    /** accept or reject the handshake (false = HTTP 401), e.g. to check an Authorization header or subprotocol */
+    authorize?: (req: IncomingMessage) => boolean;
+    onConnection?: (conn: MockConnection) => void;
+    onDetails?: (conn: MockConnection, details: SessionDetails) => void;
+    onAudio?: (conn: MockConnection, frame: Int16Array) => void;
+    onMessage?: (conn: MockConnection, msg: ClientMessage) => void;
+}
+
+export interface MockFrame {
+    /** requestId of the details that preceded it (null if none yet) */
+    requestId: string | null;
+    data: Int16Array;
+    receivedAt: number;
+}
+
+/** One client socket as seen by the mock server. */
+export class MockConnection {
+    /** details payloads in arrival order */
+    readonly details: SessionDetails[] = [];
+    /** binary audio frames in arrival order */
+    readonly frames: MockFrame[] = [];
+    /** every JSON frame the client sent */
+    readonly messages: ClientMessage[] = [];
+    latencyMs: number;
+    echoHeartbeats: boolean;
+
+    private readonly socket: WebSocket;
+    private readonly opts: MockServerOptions;
+    private requestId: string | null = null;
+    private utterance: { frames: number; words: number } | null = null; // set between start_audio and the end
+
+    constructor(socket: WebSocket, opts: MockServerOptions) {
+        this.socket = socket;
+        this.opts = opts;
+        this.latencyMs = opts.latencyMs ?? 0;
+        this.echoHeartbeats = opts.echoHeartbeats ?? true;
+        socket.on("message", (data, isBinary) => this.receive(data, isBinary));
+    }
+
+    get open() {
+        return this.socket.readyState === this.socket.OPEN;
+    }
+
+    /** Concatenated audio received (for `requestId`, or all of it). */
+    audio(requestId?: string): Int16Array {
+        const frames = this.frames.filter((f) => requestId === undefined || f.requestId === requestId);
+        const out = new Int16Array(frames.reduce((n, f) => n + f.data.length, 0));
+        let at = 0;
+        for (const f of frames) {
+            out.set(f.data, at);
+            at += f.data.length;
+        }
+        return out;
+    }
+
+    send(msg: ServerMessage) {
+        this.sendRaw(encodeServerMessage(msg));
+    }
+
+    /** Send a frame as-is (object frames are JSON-encoded), after `latencyMs`. */
+    sendRaw(frame: string | Record<string, unknown>) {
+        const text = typeof frame === "string" ? frame : JSON.stringify(frame);
+        const deliver = () => this.open && this.socket.send(text);
+        if (this.latencyMs > 0) setTimeout(deliver, this.latencyMs);
+        else deliver();
+    }
+
+    startAudio() {
+        this.utterance = { frames: 0, words: 0 };
+        this.send({ type: "start_audio" });
+    }
+
+    interim(previous: string, next: string) {
+        this.send({ type: "streaming_data", previous, next });
+    }
+
+    /** End the utterance like the backend does: final text, stop_audio and disconnect in one frame. */
+    finish(text: string) {
+        this.utterance = null;
+        this.sendRaw({ transcription: text, stop_audio: true, disconnect: true });
+    }
+
+    error(error: unknown) {
+        this.utterance = null;
+        this.send({ type: "error", error });
+    }
+
+    /** Kill the TCP connection without a close frame (the client sees 1006). */
+    drop() {
+        this.utterance = null;
+        this.socket.terminate();
+    }
+
+    close(code = 1000, reason = "") {
+        this.utterance = null;
+        this.socket.close(code, reason);
+    }
+
+    private receive(data: RawData, isBinary: boolean) {
+        const bytes = Buffer.isBuffer(data) ? data : Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data);
+        if (isBinary) {
+            // copy: ws may hand out views into a shared buffer, and Int16Array needs even alignment
+            const frame = new Int16Array(bytes.byteLength >> 1);
+            new Uint8Array(frame.buffer).set(bytes.subarray(0, frame.byteLength));
+            this.frames.push({ requestId: this.requestId, data: frame, receivedAt: Date.now() });
+            this.opts.onAudio?.(this, frame);
+            if (!this.opts.manual) this.scriptAudio();
+            return;
+        }
+
+        let msg: ClientMessage;
+        try {
+            msg = decodeClientMessage(bytes.toString("utf8"));
+        } catch {
+            return; // not protocol traffic; the real server ignores it too
+        }
+        this.messages.push(msg);
+        this.opts.onMessage?.(this, msg);
+
+        switch (msg.type) {
+            case "heartbeat":
+                if (this.echoHeartbeats) this.send({ type: "heartbeat", seq: msg.seq, ts: msg.ts });
+                return;
+            case "details":
+                this.requestId = msg.details.requestId;
+                this.details.push(msg.details);
+                this.opts.onDetails?.(this, msg.details);
+                if (!this.opts.manual) this.scriptDetails();
+                return;
+            case "disconnect":
+                if (!this.opts.manual && this.utterance) this.finish(this.finalText());
+                return;
+        }
+    }
+
+    private scriptDetails() {
+        const script = this.opts.script ?? {};
+        if (script.error !== undefined) return this.error(script.error);
+        if (script.startDelayMs) setTimeout(() => this.open && this.startAudio(), script.startDelayMs);
+        else this.startAudio();
+    }
+
+    private scriptAudio() {
+        const script = this.opts.script ?? {};
+        const utt = this.utterance;
+        if (!utt) return;
+        utt.frames++;
+
+        if (script.dropAfterFrames !== undefined && utt.frames >= script.dropAfterFrames) return this.drop();
+        const words = script.interim ?? [];
+        if (utt.words < words.length) {
+            this.interim(words.slice(0, utt.words).join(" "), words[utt.words]);
+            utt.words++;
+        }
+        if (script.stopAfterFrames !== undefined && utt.frames >= script.stopAfterFrames) this.finish(this.finalText());
+    }
+
+    private finalText() {
+        const script = this.opts.script ?? {};
+        return script.final ?? (script.interim ?? []).join(" ");
+    }
+}
+
+/**
+ * Mock RATT backend on a local port.
+ *
+ *     const server = new MockRattServer({ script: { interim: ["hello", "world"] } });
+ *     const client = new AssistantClient({ url: await server.listen(), ... });
+ */
+export class MockRattServer {
+    /** every connection accepted so far, oldest first */
+    readonly connections: MockConnection[] = [];
+
+    private readonly opts: MockServerOptions;
+    private wss: WebSocketServer | null = null;
+    private waiters: ((conn: MockConnection) => void)[] = [];
+
+    constructor(opts: MockServerOptions = {}) {
+        this.opts = opts;
+    }
+
+    /** ws:// URL of the server (after listen()). */
+    get url(): string {
+        const address = this.wss?.address();
+        if (!address || typeof address === "string") throw new Error("[ratt-lib] MockRattServer is not listening");
+        return `ws://${this.opts.host ?? "127.0.0.1"}:${address.port}`;
+    }
+
+    /** every details payload received, across connections */
+    get details(): SessionDetails[] {
+        return this.connections.flatMap((c) => c.details);
+    }
+
+    /** Concatenated audio received for `requestId` (or all of it), across connections. */
+    audio(requestId?: string): Int16Array {
+        const parts = this.connections.map((c) => c.audio(requestId));
+        const out = new Int16Array(parts.reduce((n, p) => n + p.length, 0));
+        let at = 0;
+        for (const p of parts) {
+            out.set(p, at);
+            at += p.length;
+        }
+        return out;
+    }
+
+    /** Start listening; resolves with the URL to connect to. */
+    async listen(): Promise<string> {
+        if (this.wss) return this.url;
+        const authorize = this.opts.authorize;
+        const wss = new WebSocketServer({
+            port: this.opts.port ?? 0,
+            host: this.opts.host ?? "127.0.0.1",
+            ...(authorize && { verifyClient: ({ req }: { req: IncomingMessage }) => authorize(req) }),
+        });
+        await new Promise<void>((resolve, reject) => {
+            wss.once("listening", resolve);
+            wss.once("error", reject);
+        });
+        wss.on("connection", (socket) => {
+            const conn = new MockConnection(socket, this.opts);
+            this.connections.push(conn);
+            this.opts.onConnection?.(conn);
+            for (const resolve of this.waiters.splice(0)) resolve(conn);
+        });
+        this.wss = wss;
+        return this.url;
+    }
+
+    /** Resolve with the next connection (rejects after `timeoutMs`, default 5000). */
+    nextConnection(timeoutMs = 5000): Promise<MockConnection> {
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.waiters = this.waiters.filter((w) => w !== waiter);
+                reject(new Error(`[ratt-lib] no connection within ${timeoutMs}ms`));
+            }, timeoutMs);
+            const waiter = (conn: MockConnection) => {
+                clearTimeout(timer);
+                resolve(conn);
+            };
+            this.waiters.push(waiter);
+        });
+    }
+
+    /** Drop every client and stop listening. */
+    async close(): Promise<void> {
+        const wss = this.wss;
+        if (!wss) return;
+        this.wss = null;
+        for (const client of wss.clients) client.terminate();
+        await new Promise<void>((resolve) => wss.close(() => resolve()));
+    }
+}
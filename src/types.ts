@@ -1,7 +1,5 @@
 export type ToastKind = "success" | "info" | "warn" | "error" | undefined;
 
-export type AssistantEvents = "ready" | "mic-open" | "mic-connecting" | "transcription" | "amplitude" | "error" | "socket-message";
-
 export const AssistantEvent = {
     READY: "ready",
     MIC_OPEN: "mic-open",
@@ -10,6 +8,20 @@ export const AssistantEvent = {
     AMPLITUDE: "amplitude",
     ERROR: "error",
     SOCKET_MESSAGE: "socket-message",
+    RECONNECTING: "reconnecting",
+    RECONNECTED: "reconnected",
+    RECONNECT_FAILED: "reconnect-failed",
+    UNKNOWN_MESSAGE: "unknown-message",
+    SPEECH_START: "speech-start",
+    SPEECH_END: "speech-end",
+    BACKPRESSURE: "backpressure",
+    STATE_CHANGE: "state-change",
+    AUTH_FAILED: "auth-failed",
+    DEVICE_CHANGE: "device-change",
+    MUTE_CHANGE: "mute-change",
+    STATS: "stats",
+    QUALITY_CHANGE: "quality-change",
+    HEARTBEAT: "heartbeat",
 } as const;
 
 export type AssistantEventName = (typeof AssistantEvent)[keyof typeof AssistantEvent];
@@ -19,7 +31,309 @@ export type SocketMessageDetail = {
     parsed?: any;
 };
 
-export type MediaStreamProvider = () => Promise<MediaStream>;
+export type ReconnectingDetail = {
+    /** 1-based attempt number */
+    attempt: number;
+    /** ms until the attempt is made */
+    delay: number;
+};
+
+export type ReconnectedDetail = {
+    /** number of attempts it took to get the socket back */
+    attempts: number;
+};
+
+export type ReconnectFailedDetail = {
+    /** attempts made before giving up */
+    attempts: number;
+};
+
+/** Automatic reconnect policy (exponential backoff with jitter) */
+export interface ReconnectOptions {
+    /** set to false to never reconnect after an unexpected close (default: true) */
+    enabled?: boolean;
+    /** delay before the first attempt in ms (default: 2000) */
+    initialDelayMs?: number;
+    /** upper bound for the backoff delay in ms (default: 30000) */
+    maxDelayMs?: number;
+    /** factor applied to the delay after every failed attempt (default: 2) */
+    multiplier?: number;
+    /** randomization as a fraction of the delay, 0..1 (default: 0.2 => ±20%) */
+    jitter?: number;
+    /** give up and emit RECONNECT_FAILED after this many attempts (default: Infinity) */
+    maxAttempts?: number;
+}
+
+/** Picking an utterance back up after the socket drops mid-stream (needs reconnect) */
+export interface ResumeOptions {
+    /** default: true when an options object is given */
+    enabled?: boolean;
+    /** end the utterance if it isn't resumed (start_audio again) within this many ms of the drop (default: 15000) */
+    timeoutMs?: number;
+    /** merged into the re-sent details so the server knows it's a resume (default: `{ resume: true }`) */
+    marker?: Record<string, unknown>;
+}
+
+export type UnknownMessageDetail = {
+    /** the frame's `type` field, or its first key */
+    kind: string | undefined;
+    data: Record<string, unknown>;
+};
+
+export type ServerMessageHandler = (data: Record<string, unknown>) => void;
+
+export type SpeechStartDetail = {
+    /** VAD frame energy that triggered the start */
+    energy: number;
+};
+
+export type SpeechEndDetail = {
+    /** ms since the matching SPEECH_START */
+    durationMs: number;
+    /** true when the segment was too short (< minSpeechFrames) to count as speech */
+    misfire: boolean;
+};
+
+export type BackpressureDetail = {
+    /** true while sending is held back waiting for the socket to drain */
+    paused: boolean;
+    /** ws.bufferedAmount at the time of the event */
+    bufferedAmount: number;
+    /** local audio waiting to be sent, in PCM16 bytes */
+    queuedBytes: number;
+    /** samples discarded to respect the buffer bounds (0 for pause/resume) */
+    dropped: number;
+};
+
+/** Session lifecycle: idle → connecting → awaiting-start → streaming → stopping → idle, or closed; resuming bridges a dropped socket */
+export type SessionState = "idle" | "connecting" | "awaiting-start" | "streaming" | "resuming" | "stopping" | "closed";
+
+export type StateChangeDetail = {
+    previous: SessionState;
+    next: SessionState;
+};
+
+export type AuthFailedDetail = {
+    /** HTTP status of a rejected handshake (Node only; browsers don't expose it) */
+    status?: number;
+    /** close code when the server accepted the socket and then closed it for auth reasons */
+    closeCode?: number;
+    /** the underlying error / event, or what the auth provider threw */
+    error: unknown;
+};
+
+export type DeviceChangeDetail = {
+    /** the capture track ended (device unplugged, permission revoked) or the OS device list changed */
+    reason: "track-ended" | "devices-changed";
+    /** device being captured (for track-ended, the one that went away); null when not known */
+    deviceId: string | null;
+    /** audio inputs after the change (devices-changed only) */
+    devices?: MediaDeviceInfo[];
+};
+
+export type MuteChangeDetail = {
+    muted: boolean;
+};
+
+/** Connection health from heartbeat round trips: good, degraded (slow), poor (very slow or echoes missing) */
+export type ConnectionQuality = "good" | "degraded" | "poor";
+
+export type QualityChangeDetail = {
+    quality: ConnectionQuality;
+    previous: ConnectionQuality;
+    /** smoothed heartbeat round-trip time; null before the first echo */
+    rttMs: number | null;
+    /** heartbeats in a row that went unanswered */
+    missedPongs: number;
+};
+
+export type HeartbeatDetail = {
+    /** round trip of this heartbeat */
+    rttMs: number;
+    /** smoothed round trip, as used for connectionQuality */
+    smoothedRttMs: number;
+    quality: ConnectionQuality;
+};
+
+/** Thresholds for connectionQuality and how heartbeats adapt to it */
+export interface QualityOptions {
+    /** smoothed RTT at or above this is "degraded" (default: 500) */
+    degradedRttMs?: number;
+    /** smoothed RTT at or above this is "poor" (default: 1500); a heartbeat not echoed within it counts as missed, which is "poor" too */
+    poorRttMs?: number;
+    /** heartbeat interval while not "good", to notice recovery or a drop sooner (default: 1000, never slower than pingIntervalMs) */
+    probeIntervalMs?: number;
+}
+
+/** Timings and counters for one utterance (requestId) */
+export interface RequestStats {
+    requestId: string;
+    /** epoch ms when start() / startSession() asked for it */
+    requestedAt: number;
+    /** start request → first start_audio; null until it arrives */
+    timeToStartMs: number | null;
+    /** first audio frame sent → first interim or final transcript; null until both happened */
+    timeToFirstTranscriptMs: number | null;
+    /** PCM16 audio bytes sent */
+    bytesSent: number;
+    framesSent: number;
+}
+
+/** Counters for one socket, from when this client attached to it until it closed */
+export interface ConnectionStats {
+    /** 1-based, counts the sockets this client has used */
+    id: number;
+    /** epoch ms */
+    openedAt: number;
+    closedAt: number | null;
+    closeCode: number | null;
+    bytesSent: number;
+    framesSent: number;
+    heartbeatsSent: number;
+    /** heartbeats not echoed within quality.poorRttMs */
+    missedPongs: number;
+    /** round-trip time of the latest echoed heartbeat; null before the first echo */
+    rttMs: number | null;
+    /** mean round-trip time over the connection */
+    avgRttMs: number | null;
+}
+
+/** Snapshot returned by getStats() and carried by the STATS event */
+export interface ClientStats {
+    /** epoch ms */
+    at: number;
+    state: SessionState;
+    quality: ConnectionQuality;
+    /** successful automatic reconnects over the client's lifetime */
+    reconnects: number;
+    /** local audio waiting to be sent, in ms */
+    bufferedMs: number;
+    /** ws.bufferedAmount: bytes handed to the socket but not yet on the wire */
+    socketBufferedBytes: number;
+    /** the current (or latest) utterance */
+    request: RequestStats | null;
+    /** the current (or latest) socket */
+    connection: ConnectionStats | null;
+    /** recent utterances, oldest first (last 20) */
+    requests: RequestStats[];
+    /** recent sockets, oldest first (last 10) */
+    connections: ConnectionStats[];
+}
+
+export type MicOpenDetail = { open: boolean };
+export type MicConnectingDetail = { connecting: boolean };
+export type AmplitudeDetail = { value: number };
+export type ErrorDetail = { error: unknown };
+
+export type TranscriptionDetail = {
+    /** full accumulated text */
+    text: string;
+    /** word just revealed (progressive updates only) */
+    delta?: string;
+    /** true once the utterance's text is final */
+    final?: boolean;
+};
+
+/** `detail` payload for every event emitted by AssistantClient */
+export interface AssistantEventDetailMap {
+    ready: undefined;
+    "mic-open": MicOpenDetail;
+    "mic-connecting": MicConnectingDetail;
+    transcription: TranscriptionDetail;
+    amplitude: AmplitudeDetail;
+    error: ErrorDetail;
+    "socket-message": SocketMessageDetail;
+    reconnecting: ReconnectingDetail;
+    reconnected: ReconnectedDetail;
+    "reconnect-failed": ReconnectFailedDetail;
+    "unknown-message": UnknownMessageDetail;
+    "speech-start": SpeechStartDetail;
+    "speech-end": SpeechEndDetail;
+    backpressure: BackpressureDetail;
+    "state-change": StateChangeDetail;
+    "auth-failed": AuthFailedDetail;
+    "device-change": DeviceChangeDetail;
+    "mute-change": MuteChangeDetail;
+    stats: ClientStats;
+    "quality-change": QualityChangeDetail;
+    heartbeat: HeartbeatDetail;
+}
+
+export type AssistantEvents = keyof AssistantEventDetailMap;
+
+export type AssistantEventHandler<K extends AssistantEvents> = (e: CustomEvent<AssistantEventDetailMap[K]>) => void;
+
+export interface WaitForOptions {
+    /** reject with a RattSessionError (code "timeout") after this many ms */
+    timeout?: number;
+    /** reject with the signal's reason when aborted */
+    signal?: AbortSignal;
+}
+
+/** Voice activity detection tuning, passed to the VAD worklet as processorOptions */
+export interface VadOptions {
+    /** frame energy above this counts as speech (default: 0.5) */
+    positiveSpeechThreshold?: number;
+    /** frame energy below this counts as silence (default: 0.35) */
+    negativeSpeechThreshold?: number;
+    /** consecutive silent frames (128 samples each) before speech ends (default: 20) */
+    redemptionFrames?: number;
+    /** frames kept from before speech onset when VAD fires during prebuffering (default: 40, ~320 ms) */
+    preSpeechPadFrames?: number;
+    /** speech frames needed for a valid segment (default: 3) */
+    minSpeechFrames?: number;
+}
+
+/**
+ * What to do when the socket's send buffer (ws.bufferedAmount) passes highWaterMark:
+ * - "pause": stop sending and queue locally until it drains below lowWaterMark
+ * - "drop-oldest": stop sending and keep only the newest frame locally, so audio stays near real time
+ * - "fail": end the session with a RattSessionError (code "backpressure")
+ */
+export type BackpressurePolicy = "pause" | "drop-oldest" | "fail";
+
+export interface BackpressureOptions {
+    /** bufferedAmount in bytes at which sending stops (default: 262144) */
+    highWaterMark?: number;
+    /** bufferedAmount in bytes at which sending resumes (default: 65536) */
+    lowWaterMark?: number;
+    /** default: "pause" */
+    policy?: BackpressurePolicy;
+    /** upper bound on locally buffered audio in ms; oldest audio is dropped past it (default: 30000) */
+    maxBufferedMs?: number;
+}
+
+/** Opt-in capture of the exact audio sent, per requestId */
+export interface SessionRecordingOptions {
+    /** default: true when an options object is given */
+    enabled?: boolean;
+    /** recordings kept; the oldest requestId is evicted first (default: 10) */
+    maxRecordings?: number;
+    /** audio kept per recording in ms; later frames are not recorded (default: 600000) */
+    maxDurationMs?: number;
+}
+
+/** One utterance's transcript */
+export interface TranscriptSegment {
+    requestId: string;
+    text: string;
+    /** set by a server `transcription` frame or when the utterance ends */
+    final: boolean;
+    /** epoch ms */
+    startedAt: number;
+    updatedAt: number;
+    finalizedAt: number | null;
+}
+
+export interface TranscriptOptions {
+    /** reveal interim words one by one (default: true, 100 ms per word); false shows them at once */
+    reveal?: boolean | { wordIntervalMs?: number };
+    /** segments kept in the session history (default: 50) */
+    maxHistory?: number;
+}
+
+/** `deviceId` is the mic picked via the `deviceId` option / setInputDevice(), if any */
+export type MediaStreamProvider = (deviceId?: string) => Promise<MediaStream>;
 
 /** Optional overrides for how audio is created/loaded */
 export interface AudioPlumbingOverrides {
@@ -36,19 +350,136 @@ export type ExternalAudioOptions = {
     externalAudio?: boolean;
     /** derive amplitude from pushed PCM and emit AMPLITUDE events (default: true) */
     externalAmplitudeRms?: boolean;
-    /** target PCM chunking for send loop; defaults to TARGET_SAMPLES (16000) */
+    /** target PCM chunking for send loop; defaults to frameDurationMs worth of samples (16000 at the default 1000 ms) */
     pcmChunkSize?: number;
 };
 
+/** What an auth provider returns; anything omitted falls back to the plain connect. */
+export interface AuthCredentials {
+    /** connect here instead of `url` (e.g. with a fresh `?token=`) */
+    url?: string;
+    /** handshake headers such as Authorization (Node only; browsers can't set them) */
+    headers?: Record<string, string>;
+    /** Sec-WebSocket-Protocol values, e.g. ["bearer", token] (works in browsers) */
+    protocols?: string | string[];
+}
+
+export interface AuthContext {
+    /** the configured url */
+    url: string;
+    /** 0 for a normal connect, n for the n-th reconnect attempt */
+    attempt: number;
+}
+
+/** Runs before every connect and reconnect, so short-lived tokens can be refreshed. */
+export type AuthProvider = (ctx: AuthContext) => AuthCredentials | void | Promise<AuthCredentials | void>;
+
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+/** Anything console-shaped (console itself, pino, winston, ...) */
+export interface LogSink {
+    debug(...args: unknown[]): void;
+    info(...args: unknown[]): void;
+    warn(...args: unknown[]): void;
+    error(...args: unknown[]): void;
+}
+
+export interface LoggerOptions {
+    /** where log lines go; nothing is logged without one */
+    sink?: LogSink;
+    /** minimum level written (default: "info") */
+    level?: LogLevel;
+    /** rattAgentDetails keys whose values are masked wherever they'd be logged (default: useremailId, username, email) */
+    redactFields?: string[];
+    /** URL query parameters to mask; `true` (default) masks every value */
+    redactQueryParams?: string[] | true;
+}
+
 export interface AssistantOptions extends AudioPlumbingOverrides, ExternalAudioOptions {
     url: string;
+    /** sockets are shared between clients with the same key and `auth` provider (default: `url`) */
+    connectionKey?: string;
     onSend?: () => void;
     rattAgentDetails?: Record<string, any>;
     requestId: { current: string };
     showToast?: (severity: ToastKind, summary: string, detail: string, life?: number) => void;
     pingIntervalMs?: number;
     maxMissedPongs?: number;
+    /** connectionQuality thresholds and adaptive heartbeat */
+    quality?: QualityOptions;
     workletBasePath?: string; // where recorder-worklet.js & vad-worklet.js are served
+    /** microphone to capture (from listInputDevices()); default: the system default input */
+    deviceId?: string;
+    /** audio per outgoing frame in ms, e.g. 20/40/100 for low latency (default: 1000) */
+    frameDurationMs?: number;
+    /** send-side flow control based on ws.bufferedAmount */
+    backpressure?: BackpressureOptions;
+    /** transcript history and word-reveal animation */
+    transcript?: TranscriptOptions;
+    /** keep what was sent for getRecording(); `true` uses the default caps */
+    recordSession?: SessionRecordingOptions | boolean;
+    /** reconnect policy; `false` disables automatic reconnect */
+    reconnect?: ReconnectOptions | boolean;
+    /** keep the utterance across a socket drop and replay the audio buffered meanwhile; off by default */
+    resume?: ResumeOptions | boolean;
+    /** VAD thresholds for the mic path */
+    vad?: VadOptions;
+    /** end the utterance (send disconnect) after this much silence following speech; 0 = off (default) */
+    autoStopOnSilenceMs?: number;
+    /** while prebuffering, keep only this much audio from before start_audio / speech (default: 1500) */
+    preRollMs?: number;
+    /** what goes out while pause()d: "stop" sends nothing (default), "silence" keeps sending zero frames at the frame rate */
+    pauseMode?: "stop" | "silence";
+    /** emit STATS with a getStats() snapshot this often, from the first connect until closeSocket(); 0 = off (default) */
+    statsIntervalMs?: number;
+    /** library logging; silent unless a sink is given */
+    logger?: LoggerOptions;
+    /** credentials for the WS handshake, fetched before every connect/reconnect */
+    auth?: AuthProvider;
+}
+
+/** Describes pushed audio that isn't already 16 kHz mono */
+export interface PushAudioOptions {
+    /** input sample rate in Hz (default: 16000); anything else is resampled */
+    sampleRate?: number;
+    /** interleaved channel count (default: 1); more channels are averaged to mono */
+    channels?: number;
+}
+
+export interface SessionCallOptions {
+    /** reject (start) / give up (finish) after this many ms */
+    timeoutMs?: number;
+    /** abort the call; the session is stopped */
+    signal?: AbortSignal;
+}
+
+/** samples, or raw PCM16 LE bytes (Buffer / Uint8Array) */
+export type AudioChunk = Int16Array | Float32Array | Uint8Array;
+/** a whole buffer, or chunks as they arrive (iterables, Node Readable, WHATWG ReadableStream) */
+export type AudioSource = AudioChunk | Iterable<AudioChunk> | AsyncIterable<AudioChunk> | ReadableStream<AudioChunk>;
+
+export interface PushWavOptions {
+    /** pace sending at playback speed instead of as fast as backpressure allows (default false) */
+    realtime?: boolean;
+    /** stop pushing when aborted */
+    signal?: AbortSignal;
+}
+
+export interface TranscribeOptions extends PushAudioOptions, SessionCallOptions {
+    /** "wav" parses RIFF headers (rate/channels/bit depth come from the file); default raw "pcm" */
+    format?: "pcm" | "wav";
+    /** pace sending at playback speed (default false) */
+    realtime?: boolean;
+}
+
+export interface PipeFromOptions extends TranscribeOptions {
+    /** finish() the utterance when the source ends (default true) */
+    end?: boolean;
+}
+
+export interface TranscriptionsOptions {
+    /** stop iterating when aborted */
+    signal?: AbortSignal;
 }
 
 export interface StartMicOptions {
@@ -62,3 +493,5 @@ export interface TranscriptionPayload {
 }
 
 export const TARGET_SAMPLES = 16000;
+/** sample rate the server expects */
+export const TARGET_SAMPLE_RATE = 16000;
@@ -1,14 +1,30 @@
-export function appendWords(push: (full: string, delta?: string) => void, previous: string, next: string) {
+/**
+ * Reveal `next` word by word after `previous`, calling `push` for each step.
+ * Returns a cancel function; pass `complete` to jump straight to the full text.
+ */
+export function appendWords(push: (full: string, delta?: string) => void, previous: string, next: string, intervalMs = 100): (complete?: boolean) => void {
     let current = previous || "";
     push(current);
-    const words = (next || "").trim().split(/\s+/);
+    const words = (next || "").trim().split(/\s+/).filter(Boolean);
     let i = 0;
+    let timer: ReturnType<typeof setTimeout> | null = null;
     const tick = () => {
+        timer = null;
         if (i >= words.length) return;
         const w = words[i++];
         current = current ? `${current} ${w}` : w;
         push(current, w);
-        setTimeout(tick, 100);
+        timer = setTimeout(tick, intervalMs);
     };
     tick();
+    return (complete = false) => {
+        if (timer) clearTimeout(timer);
+        timer = null;
+        if (complete && i < words.length) {
+            const rest = words.slice(i).join(" ");
+            i = words.length;
+            current = current ? `${current} ${rest}` : rest;
+            push(current, rest);
+        }
+    };
 }
@@ -0,0 +1,65 @@
+import type { AudioSource } from "../types";
+
+/**
+ * Normalize an audio source into typed sample chunks. Raw bytes (Buffer /
+ * Uint8Array, e.g. from a Node Readable or a fetch body) are PCM16 LE; an odd
+ * trailing byte is carried over to the next chunk. Stops reading (and releases
+ * the stream) when the consumer stops iterating.
+ */
+export async function* audioChunks(source: AudioSource): AsyncGenerator<Int16Array | Float32Array> {
+    let carry: number | null = null;
+
+    for await (const chunk of sourceChunks(source)) {
+        if (chunk instanceof Int16Array || chunk instanceof Float32Array) {
+            yield chunk;
+            continue;
+        }
+        if (!(chunk instanceof Uint8Array)) {
+            throw new TypeError(`[ratt-lib] audio sources must yield binary PCM (Buffer/Uint8Array/Int16Array/Float32Array), got ${typeof chunk}`);
+        }
+
+        let bytes = chunk;
+        if (carry !== null || bytes.byteOffset % 2 !== 0) {
+            const joined = new Uint8Array((carry !== null ? 1 : 0) + bytes.length);
+            if (carry !== null) joined[0] = carry;
+            joined.set(bytes, carry !== null ? 1 : 0);
+            bytes = joined;
+        }
+        const samples = bytes.length >> 1;
+        carry = bytes.length % 2 ? bytes[bytes.length - 1] : null;
+        if (samples) yield new Int16Array(bytes.buffer, bytes.byteOffset, samples);
+    }
+}
+
+/** Iterate a source as-is: a single buffer, a ReadableStream or an (async) iterable. */
+export function sourceChunks(source: AudioSource): AsyncIterable<unknown> {
+    if (ArrayBuffer.isView(source)) return toAsync([source]);
+    if (isReadableStream(source)) return readStream(source);
+    return Symbol.asyncIterator in source ? source : toAsync(source);
+}
+
+async function* toAsync<T>(items: Iterable<T>): AsyncGenerator<T> {
+    yield* items;
+}
+
+function isReadableStream(source: unknown): source is ReadableStream<unknown> {
+    return typeof (source as ReadableStream | null)?.getReader === "function";
+}
+
+async function* readStream<T>(stream: ReadableStream<T>): AsyncGenerator<T> {
+    const reader = stream.getReader();
+    let finished = false;
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+                finished = true;
+                return;
+            }
+            yield value;
+        }
+    } finally {
+        if (!finished) await reader.cancel().catch(() => {});
+        reader.releaseLock();
+    }
+}
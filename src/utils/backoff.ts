@@ -0,0 +1,31 @@
+import type { ReconnectOptions } from "../types";
+
+export const DEFAULT_RECONNECT: Required<ReconnectOptions> = {
+    enabled: true,
+    initialDelayMs: 2000,
+    maxDelayMs: 30000,
+    multiplier: 2,
+    jitter: 0.2,
+    maxAttempts: Infinity,
+};
+
+export function normalizeReconnect(input: ReconnectOptions | boolean | undefined): Required<ReconnectOptions> {
+    if (input === false) return { ...DEFAULT_RECONNECT, enabled: false };
+    if (input === true || input == null) return { ...DEFAULT_RECONNECT };
+    return {
+        enabled: input.enabled ?? DEFAULT_RECONNECT.enabled,
+        initialDelayMs: Math.max(0, input.initialDelayMs ?? DEFAULT_RECONNECT.initialDelayMs),
+        maxDelayMs: Math.max(0, input.maxDelayMs ?? DEFAULT_RECONNECT.maxDelayMs),
+        multiplier: Math.max(1, input.multiplier ?? DEFAULT_RECONNECT.multiplier),
+        jitter: Math.min(1, Math.max(0, input.jitter ?? DEFAULT_RECONNECT.jitter)),
+        maxAttempts: Math.max(0, input.maxAttempts ?? DEFAULT_RECONNECT.maxAttempts),
+    };
+}
+
+/** Delay for the given 1-based attempt: initial * multiplier^(attempt-1), capped, then ±jitter. */
+export function computeBackoffDelay(attempt: number, policy: Required<ReconnectOptions>, random: () => number = Math.random): number {
+    const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.multiplier, Math.max(0, attempt - 1)));
+    const spread = base * policy.jitter;
+    const jittered = base - spread + random() * spread * 2;
+    return Math.round(Math.min(policy.maxDelayMs, Math.max(0, jittered)));
+}
@@ -0,0 +1,57 @@
+// Shared WebSocket registry: one socket per connection key (the URL unless an
+// explicit connectionKey is given, plus the auth provider when there is one).
+// Users are reference-counted so a socket is only closed once the last
+// AssistantClient holding it lets go.
+
+export interface SharedConnection {
+    /** the live (or connecting) socket for this key */
+    socket: WebSocket | null;
+    /** single-flight connect in progress for this key */
+    connecting: Promise<WebSocket> | null;
+    /** clients currently holding this connection */
+    users: Set<object>;
+}
+
+const registry = new Map<string, SharedConnection>();
+const authIds = new WeakMap<object, number>();
+let nextAuthId = 1;
+
+/** Registry key for `key` used with `auth`: clients with different auth providers never share a socket. */
+export function connectionKeyFor(key: string, auth?: object): string {
+    if (!auth) return key;
+    let id = authIds.get(auth);
+    if (id === undefined) authIds.set(auth, (id = nextAuthId++));
+    return `${key}#auth-${id}`;
+}
+
+/** Look up a connection without registering a user. */
+export function peekConnection(key: string): SharedConnection | undefined {
+    return registry.get(key);
+}
+
+/** Register `user` on `key` (idempotent) and return the shared entry. */
+export function acquireConnection(key: string, user: object): SharedConnection {
+    let entry = registry.get(key);
+    if (!entry) {
+        entry = { socket: null, connecting: null, users: new Set() };
+        registry.set(key, entry);
+    }
+    entry.users.add(user);
+    return entry;
+}
+
+/** Drop `user` from `key`; returns how many users still hold the connection. */
+export function releaseConnection(key: string, user: object): number {
+    const entry = registry.get(key);
+    if (!entry) return 0;
+    entry.users.delete(user);
+    const remaining = entry.users.size;
+    if (remaining === 0 && !entry.connecting) registry.delete(key);
+    return remaining;
+}
+
+/** Forget `socket` for `key` if it is still the registered one (e.g. after it closed). */
+export function clearConnectionSocket(key: string, socket: WebSocket) {
+    const entry = registry.get(key);
+    if (entry?.socket === socket) entry.socket = null;
+}
@@ -0,0 +1,93 @@
+import type { LoggerOptions, LogLevel, LogSink } from "../types";
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+const MASK = "[redacted]";
+const DEFAULT_FIELDS = ["useremailId", "username", "email"];
+const QUERY_PARAM = /([?&])([^=&#\s]+)=([^&#\s"']*)/g;
+const MAX_DEPTH = 4;
+
+/**
+ * Leveled logger shared by every module. Silent without a sink. Everything
+ * logged goes through redact() first: URL query values, configured
+ * rattAgentDetails fields (by key in objects, by value inside strings).
+ */
+export class Logger {
+    private readonly sink: LogSink | null;
+    private readonly threshold: number;
+    private readonly fields: Set<string>;
+    private readonly queryParams: Set<string> | true;
+    private secrets: string[] = []; // current values of the redacted details fields
+
+    constructor(opts: LoggerOptions = {}, details: Record<string, unknown> = {}) {
+        this.sink = opts.sink ?? null;
+        this.threshold = LEVELS[opts.level ?? "info"];
+        this.fields = new Set(opts.redactFields ?? DEFAULT_FIELDS);
+        this.queryParams = opts.redactQueryParams === undefined || opts.redactQueryParams === true ? true : new Set(opts.redactQueryParams);
+        this.watchDetails(details);
+    }
+
+    /** Remember the sensitive values of `details` so they are masked even inside free text. */
+    watchDetails(details: Record<string, unknown>) {
+        this.secrets = [...this.fields]
+            .map((key) => details[key])
+            .filter((v): v is string | number => (typeof v === "string" && v.length >= 3) || typeof v === "number")
+            .map(String)
+            .sort((a, b) => b.length - a.length); // longest first so overlapping values mask fully
+    }
+
+    enabled(level: Exclude<LogLevel, "silent">) {
+        return this.sink !== null && LEVELS[level] >= this.threshold;
+    }
+
+    debug(message: string, ...data: unknown[]) {
+        this.write("debug", message, data);
+    }
+
+    info(message: string, ...data: unknown[]) {
+        this.write("info", message, data);
+    }
+
+    warn(message: string, ...data: unknown[]) {
+        this.write("warn", message, data);
+    }
+
+    error(message: string, ...data: unknown[]) {
+        this.write("error", message, data);
+    }
+
+    /** Copy of `value` with sensitive parts masked (plain objects/arrays are walked; other objects pass through). */
+    redact(value: unknown, depth = 0): unknown {
+        if (typeof value === "string") return this.redactString(value);
+        if (value instanceof Error) {
+            const message = this.redactString(value.message);
+            if (message === value.message) return value;
+            const copy = new Error(message);
+            copy.name = value.name;
+            return copy;
+        }
+        if (depth >= MAX_DEPTH || typeof value !== "object" || value === null) return value;
+        if (Array.isArray(value)) return value.map((v) => this.redact(v, depth + 1));
+        const proto = Object.getPrototypeOf(value);
+        if (proto !== Object.prototype && proto !== null) return value;
+
+        const out: Record<string, unknown> = {};
+        for (const [key, v] of Object.entries(value)) out[key] = this.fields.has(key) ? MASK : this.redact(v, depth + 1);
+        return out;
+    }
+
+    private redactString(text: string): string {
+        let out = text.replace(QUERY_PARAM, (match, sep: string, name: string) =>
+            this.queryParams === true || this.queryParams.has(name) ? `${sep}${name}=${MASK}` : match,
+        );
+        for (const secret of this.secrets) out = out.split(secret).join(MASK);
+        return out;
+    }
+
+    private write(level: Exclude<LogLevel, "silent">, message: string, data: unknown[]) {
+        if (!this.enabled(level)) return;
+        this.sink![level](`[ratt-lib] ${this.redactString(message)}`, ...data.map((d) => this.redact(d)));
+    }
+}
+
+/** For module-level helpers called without a client's logger. */
+export const silentLogger = new Logger();
@@ -0,0 +1,80 @@
+import type { ConnectionQuality, QualityOptions } from "../types";
+
+type Pending = { sentAt: number; missed: boolean };
+
+// one sequence for all monitors: clients sharing a socket each see every echo, so seqs must not collide
+let lastSeq = 0;
+
+/**
+ * Heartbeat bookkeeping for one socket: numbers outgoing heartbeats, matches
+ * echoes by seq (oldest first when the server doesn't echo it), smooths the
+ * round-trip time and classifies the link.
+ */
+export class QualityMonitor {
+    /** smoothed RTT (each sample moves it by 1/4 of the difference); null before the first echo */
+    rttMs: number | null = null;
+    /** heartbeats in a row with no echo within poorRttMs (a late echo doesn't end the run) */
+    missedStreak = 0;
+    /** heartbeat wait time accumulated since the last echo (scheduled, so timer drift doesn't skew it) */
+    silentMs = 0;
+
+    private readonly outstanding = new Map<number, Pending>(); // by seq, in send order
+
+    constructor(private readonly opts: Required<QualityOptions>) {}
+
+    /** Number the next heartbeat, sent `waitedMs` after the previous one. */
+    send(waitedMs: number, at = Date.now()): number {
+        this.silentMs += waitedMs;
+        const seq = ++lastSeq;
+        this.outstanding.set(seq, { sentAt: at, missed: false });
+        return seq;
+    }
+
+    /**
+     * Count heartbeats unanswered for poorRttMs as missed (once each); returns
+     * how many just became missed. They stay matchable, so a late echo still
+     * feeds the RTT.
+     */
+    expire(at = Date.now()): number {
+        let expired = 0;
+        for (const pending of this.outstanding.values()) {
+            if (at - pending.sentAt < this.opts.poorRttMs) break;
+            if (pending.missed) continue;
+            pending.missed = true;
+            expired++;
+        }
+        this.missedStreak += expired;
+        return expired;
+    }
+
+    /** Deadline (epoch ms) of the oldest heartbeat not yet counted as missed; null if none is waiting. */
+    nextDeadline(): number | null {
+        for (const pending of this.outstanding.values()) {
+            if (!pending.missed) return pending.sentAt + this.opts.poorRttMs;
+        }
+        return null;
+    }
+
+    /** An echo arrived. Returns its round trip, or null when it matches nothing outstanding (e.g. another client's heartbeat). */
+    receive(seq: number | undefined, at = Date.now()): number | null {
+        this.silentMs = 0; // any echo shows the socket is alive
+        const match = seq ?? this.outstanding.keys().next().value;
+        const pending = match === undefined ? undefined : this.outstanding.get(match);
+        if (match === undefined || !pending) return null;
+        if (!pending.missed) this.missedStreak = 0;
+        // echoes come back in order, so anything sent before this one is not coming
+        for (const earlier of this.outstanding.keys()) {
+            if (earlier > match) break;
+            this.outstanding.delete(earlier);
+        }
+        const rtt = at - pending.sentAt;
+        this.rttMs = this.rttMs === null ? rtt : this.rttMs + (rtt - this.rttMs) / 4;
+        return rtt;
+    }
+
+    get quality(): ConnectionQuality {
+        if (this.missedStreak > 0 || (this.rttMs !== null && this.rttMs >= this.opts.poorRttMs)) return "poor";
+        if (this.rttMs !== null && this.rttMs >= this.opts.degradedRttMs) return "degraded";
+        return "good";
+    }
+}
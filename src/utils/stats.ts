@@ -0,0 +1,113 @@
+import type { ConnectionStats, RequestStats } from "../types";
+
+const MAX_REQUESTS = 20;
+const MAX_CONNECTIONS = 10;
+
+type ConnectionEntry = ConnectionStats & { rttTotal: number; rttCount: number };
+
+/**
+ * Per-requestId and per-socket counters behind getStats(). Only the latest
+ * MAX_REQUESTS utterances and MAX_CONNECTIONS sockets are kept.
+ */
+export class StatsTracker {
+    reconnects = 0;
+
+    private readonly requests = new Map<string, RequestStats & { firstFrameAt: number | null }>();
+    private readonly connections: ConnectionEntry[] = [];
+
+    /** A new utterance; `requestedAt` is when start was asked for (before connect/mic). */
+    beginRequest(requestId: string, requestedAt: number) {
+        this.requests.delete(requestId);
+        this.requests.set(requestId, { requestId, requestedAt, timeToStartMs: null, timeToFirstTranscriptMs: null, bytesSent: 0, framesSent: 0, firstFrameAt: null });
+        // Map keeps insertion order: the first key is the oldest request
+        while (this.requests.size > MAX_REQUESTS) this.requests.delete(this.requests.keys().next().value as string);
+    }
+
+    /** start_audio arrived; only the first one counts (a resume sends another). */
+    started(requestId: string, at = Date.now()) {
+        const req = this.requests.get(requestId);
+        if (req && req.timeToStartMs === null) req.timeToStartMs = at - req.requestedAt;
+    }
+
+    transcript(requestId: string, at = Date.now()) {
+        const req = this.requests.get(requestId);
+        if (req && req.firstFrameAt !== null && req.timeToFirstTranscriptMs === null) req.timeToFirstTranscriptMs = at - req.firstFrameAt;
+    }
+
+    frameSent(requestId: string, bytes: number, at = Date.now()) {
+        const req = this.requests.get(requestId);
+        if (req) {
+            if (req.firstFrameAt === null) req.firstFrameAt = at;
+            req.bytesSent += bytes;
+            req.framesSent++;
+        }
+        const conn = this.current();
+        if (conn) {
+            conn.bytesSent += bytes;
+            conn.framesSent++;
+        }
+    }
+
+    /** This client started using a (new) socket. */
+    openConnection(at = Date.now()) {
+        const id = (this.connections[this.connections.length - 1]?.id ?? 0) + 1;
+        this.connections.push({
+            id,
+            openedAt: at,
+            closedAt: null,
+            closeCode: null,
+            bytesSent: 0,
+            framesSent: 0,
+            heartbeatsSent: 0,
+            missedPongs: 0,
+            rttMs: null,
+            avgRttMs: null,
+            rttTotal: 0,
+            rttCount: 0,
+        });
+        if (this.connections.length > MAX_CONNECTIONS) this.connections.shift();
+    }
+
+    closeConnection(code: number | null, at = Date.now()) {
+        const conn = this.current();
+        if (!conn || conn.closedAt !== null) return;
+        conn.closedAt = at;
+        conn.closeCode = code;
+    }
+
+    heartbeatSent() {
+        const conn = this.current();
+        if (conn) conn.heartbeatsSent++;
+    }
+
+    heartbeatsMissed(count: number) {
+        const conn = this.current();
+        if (conn) conn.missedPongs += count;
+    }
+
+    heartbeatRtt(rttMs: number) {
+        const conn = this.current();
+        if (!conn) return;
+        conn.rttMs = rttMs;
+        conn.rttTotal += rttMs;
+        conn.rttCount++;
+        conn.avgRttMs = conn.rttTotal / conn.rttCount;
+    }
+
+    /** Copies, safe to hand out. */
+    snapshot(): { request: RequestStats | null; connection: ConnectionStats | null; requests: RequestStats[]; connections: ConnectionStats[] } {
+        const requests = [...this.requests.values()].map(({ firstFrameAt: _, ...req }) => req);
+        const connections = this.connections.map(({ rttTotal: _t, rttCount: _c, ...conn }) => conn);
+        return {
+            request: requests[requests.length - 1] ?? null,
+            connection: connections[connections.length - 1] ?? null,
+            requests,
+            connections,
+        };
+    }
+
+    private current(): ConnectionEntry | undefined {
+        const conn = this.connections[this.connections.length - 1];
+        return conn && conn.closedAt === null ? conn : undefined;
+    }
+}
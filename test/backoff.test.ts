@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { computeBackoffDelay, DEFAULT_RECONNECT, normalizeReconnect } from "../src/utils/backoff";
+import type { ReconnectOptions } from "../src/types";
+
+describe("normalizeReconnect", () => {
+    it.each<[string, ReconnectOptions | boolean | undefined, Required<ReconnectOptions>]>([
+        ["undefined", undefined, DEFAULT_RECONNECT],
+        ["true", true, DEFAULT_RECONNECT],
+        ["false", false, { ...DEFAULT_RECONNECT, enabled: false }],
+        ["partial options", { initialDelayMs: 100, maxAttempts: 3 }, { ...DEFAULT_RECONNECT, initialDelayMs: 100, maxAttempts: 3 }],
+        ["enabled: false", { enabled: false }, { ...DEFAULT_RECONNECT, enabled: false }],
+        ["out of range", { initialDelayMs: -5, maxDelayMs: -1, multiplier: 0.5, jitter: 3, maxAttempts: -2 }, { ...DEFAULT_RECONNECT, initialDelayMs: 0, maxDelayMs: 0, multiplier: 1, jitter: 1, maxAttempts: 0 }],
+        ["negative jitter", { jitter: -1 }, { ...DEFAULT_RECONNECT, jitter: 0 }],
+    ])("%s", (_, input, expected) => {
+        expect(normalizeReconnect(input)).toEqual(expected);
+    });
+
+    it("returns a copy of the defaults", () => {
+        const policy = normalizeReconnect(true);
+        policy.initialDelayMs = 1;
+        expect(DEFAULT_RECONNECT.initialDelayMs).toBe(2000);
+    });
+});
+
+describe("computeBackoffDelay", () => {
+    const policy = normalizeReconnect({ initialDelayMs: 1000, maxDelayMs: 10000, multiplier: 2, jitter: 0 });
+
+    it.each([
+        [0, 1000],
+        [1, 1000],
+        [2, 2000],
+        [3, 4000],
+        [4, 8000],
+        [5, 10000],
+        [50, 10000],
+    ])("attempt %i waits %i ms without jitter", (attempt, expected) => {
+        expect(computeBackoffDelay(attempt, policy)).toBe(expected);
+    });
+
+    it.each([
+        [0, 800],
+        [0.25, 900],
+        [0.5, 1000],
+        [1, 1200],
+    ])("jitter 0.2 with random() = %f waits %i ms", (random, expected) => {
+        expect(computeBackoffDelay(1, { ...policy, jitter: 0.2 }, () => random)).toBe(expected);
+    });
+
+    it("keeps jittered delays within [0, maxDelayMs]", () => {
+        expect(computeBackoffDelay(10, { ...policy, jitter: 0.5 }, () => 1)).toBe(10000);
+        expect(computeBackoffDelay(1, { ...policy, jitter: 1 }, () => 0)).toBe(0);
+    });
+});
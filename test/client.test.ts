@@ -0,0 +1,211 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { AssistantClient } from "../src/AssistantClient";
+import { encodeWav } from "../src/audio/wav";
+import { RattSessionError } from "../src/errors";
+import { MockRattServer } from "../src/testing";
+import type { MockServerOptions } from "../src/testing";
+import { AssistantEvent } from "../src/types";
+import type { AssistantOptions } from "../src/types";
+
+const servers: MockRattServer[] = [];
+const clients: AssistantClient[] = [];
+
+afterEach(async () => {
+    clients.splice(0).forEach((c) => c.closeSocket());
+    await Promise.all(servers.splice(0).map((s) => s.close()));
+});
+
+async function setup(serverOpts: MockServerOptions, clientOpts: Partial<AssistantOptions> = {}) {
+    const server = new MockRattServer(serverOpts);
+    servers.push(server);
+    const requestId = { current: "" };
+    const client = new AssistantClient({ url: await server.listen(), requestId, externalAudio: true, reconnect: false, ...clientOpts });
+    clients.push(client);
+    return { server, client, requestId };
+}
+
+/** `seconds` of 16 kHz mono ramp, so lost or reordered samples show up */
+function ramp(seconds: number) {
+    const samples = new Int16Array(16000 * seconds);
+    for (let i = 0; i < samples.length; i++) samples[i] = (i % 1000) + 1;
+    return samples;
+}
+
+async function sessionError(promise: Promise<unknown>): Promise<RattSessionError> {
+    const err = await promise.then(
+        () => null,
+        (e: unknown) => e
+    );
+    expect(err).toBeInstanceOf(RattSessionError);
+    return err as RattSessionError;
+}
+
+describe("transcribe()", () => {
+    it("streams the audio under one requestId and resolves with the final transcript", async () => {
+        const { server, client, requestId } = await setup({ script: { interim: ["hello", "world"] } });
+        const samples = ramp(1);
+
+        await expect(client.transcribe(samples)).resolves.toBe("hello world");
+
+        expect(server.details).toHaveLength(1);
+        expect(server.details[0].requestId).toBe(requestId.current);
+        expect(server.audio(requestId.current)).toEqual(samples);
+        expect(client.state).toBe("idle");
+    });
+
+    it("keeps stereo channels aligned when chunks split a frame", async () => {
+        const { server, client, requestId } = await setup({ script: { interim: ["stereo"] } });
+        const mono = ramp(1);
+        // left carries the signal, right is silent: a swapped pair would halve it
+        const stereo = new Int16Array(mono.length * 2);
+        mono.forEach((v, i) => (stereo[2 * i] = -2 * v));
+        const chunks = [];
+        for (let at = 0; at < stereo.length; at += 333) chunks.push(stereo.subarray(at, at + 333));
+
+        await expect(client.transcribe(chunks, { channels: 2 })).resolves.toBe("stereo");
+
+        expect(server.audio(requestId.current)).toEqual(mono.map((v) => -v));
+    });
+
+    it("rejects with server-error when the server answers details with an error", async () => {
+        const { client } = await setup({ script: { error: { message: "busy" } } });
+
+        const err = await sessionError(client.transcribe(ramp(1)));
+        expect(err.code).toBe("server-error");
+        expect(err.cause).toEqual({ message: "busy" });
+    });
+
+    it("rejects with socket-closed when the socket drops mid-utterance", async () => {
+        const { client } = await setup({ script: { dropAfterFrames: 2 } }, { frameDurationMs: 100 });
+
+        const err = await sessionError(client.transcribe(ramp(1), { realtime: true }));
+        expect(err.code).toBe("socket-closed");
+    });
+
+    it("rejects with timeout when start_audio never comes", async () => {
+        const { client } = await setup({ manual: true });
+
+        const err = await sessionError(client.transcribe(ramp(1), { timeoutMs: 200 }));
+        expect(err.code).toBe("timeout");
+    });
+});
+
+describe("pushWav()", () => {
+    it("holds a file longer than the send queue until start_audio instead of overwriting it", async () => {
+        const { server, client, requestId } = await setup(
+            {
+                manual: true,
+                onDetails: (conn) => setTimeout(() => conn.startAudio(), 100),
+                onMessage: (conn, msg) => {
+                    if (msg.type === "disconnect") conn.finish("done");
+                },
+            },
+            { frameDurationMs: 100, backpressure: { maxBufferedMs: 300 } }
+        );
+        const samples = ramp(1).map((v) => -v); // WAV decodes to float; negative values survive the round trip exactly
+
+        const started = client.start();
+        const pushed = client.pushWav(encodeWav(samples, 16000));
+        await started;
+        await pushed;
+        await expect(client.finish()).resolves.toBe("done");
+
+        expect(server.audio(requestId.current)).toEqual(samples);
+    });
+
+    it("rejects with backpressure when the queue fills and no session is starting", async () => {
+        const { client } = await setup({ manual: true }, { frameDurationMs: 100, backpressure: { maxBufferedMs: 300 } });
+
+        const err = await sessionError(client.pushWav(encodeWav(ramp(1), 16000)));
+        expect(err.code).toBe("backpressure");
+    });
+});
+
+describe("waitFor()", () => {
+    it("rejects with timeout when the event doesn't come", async () => {
+        const { client } = await setup({ manual: true });
+
+        const err = await sessionError(client.waitFor(AssistantEvent.READY, { timeout: 50 }));
+        expect(err.code).toBe("timeout");
+    });
+});
+
+describe("shared socket", () => {
+    it.each([
+        ["the same auth provider", 1, true],
+        ["different auth providers", 2, false],
+    ])("clients with %s use %i socket(s)", async (_label, sockets, sameAuth) => {
+        const auth = () => ({ headers: { authorization: "Bearer a" } });
+        const { server, client } = await setup({ manual: true }, { auth });
+        const other = new AssistantClient({
+            url: server.url,
+            requestId: { current: "" },
+            externalAudio: true,
+            reconnect: false,
+            auth: sameAuth ? auth : () => ({ headers: { authorization: "Bearer b" } }),
+        });
+        clients.push(other);
+
+        await client.connect();
+        await other.connect();
+
+        expect(server.connections).toHaveLength(sockets);
+    });
+
+    it("leaves an idle client alone when another client's session fails", async () => {
+        const { server, client } = await setup({ script: { error: { message: "busy" } } });
+        const idle = new AssistantClient({ url: server.url, requestId: { current: "" }, externalAudio: true, reconnect: false });
+        clients.push(idle);
+        await idle.connect();
+        const errors: unknown[] = [];
+        idle.on(AssistantEvent.ERROR, (e) => errors.push(e));
+
+        const err = await sessionError(client.transcribe(ramp(1)));
+
+        expect(err.code).toBe("server-error");
+        expect(server.connections).toHaveLength(1);
+        expect(errors).toEqual([]);
+    });
+});
+
+describe("resume", () => {
+    it("continues a dropped utterance on the new socket with the same requestId", async () => {
+        const { server, client, requestId } = await setup(
+            {
+                manual: true,
+                onDetails: (conn) => conn.startAudio(),
+                onAudio: (conn) => {
+                    if (conn === server.connections[0] && conn.frames.length === 3) conn.drop();
+                },
+                onMessage: (conn, msg) => {
+                    if (msg.type === "disconnect") conn.finish("resumed");
+                },
+            },
+            { frameDurationMs: 100, reconnect: { initialDelayMs: 50, jitter: 0 }, resume: true }
+        );
+
+        await expect(client.transcribe(ramp(1), { realtime: true })).resolves.toBe("resumed");
+
+        expect(server.connections).toHaveLength(2);
+        expect(server.details.map((d) => d.requestId)).toEqual([requestId.current, requestId.current]);
+        expect(server.details[1].resume).toBe(true);
+        expect(server.connections[1].frames.length).toBeGreaterThan(0);
+    });
+});
+
+describe("reconnect", () => {
+    it("is back on after closeSocket() when connect() reuses a shared socket", async () => {
+        const { server, client } = await setup({ manual: true }, { reconnect: { initialDelayMs: 50, jitter: 0 } });
+        const other = new AssistantClient({ url: server.url, requestId: { current: "" }, externalAudio: true, reconnect: false });
+        clients.push(other);
+        await other.connect();
+
+        await client.connect();
+        client.closeSocket();
+        await client.connect(); // adopts other's open socket
+        const reconnecting = client.waitFor(AssistantEvent.RECONNECTING, { timeout: 1000 });
+        server.connections[0].drop();
+
+        await expect(reconnecting).resolves.toMatchObject({ attempt: 1 });
+    });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { decodeServerMessage, encodeClientMessage, RattProtocolError, validateServerMessage } from "../src/protocol";
+import type { ClientMessage, ServerMessage } from "../src/protocol";
+
+function thrown(fn: () => unknown): RattProtocolError {
+    try {
+        fn();
+    } catch (err) {
+        expect(err).toBeInstanceOf(RattProtocolError);
+        return err as RattProtocolError;
+    }
+    throw new Error("expected a RattProtocolError");
+}
+
+describe("validateServerMessage", () => {
+    it.each<[unknown, ServerMessage[]]>([
+        [{ heartbeat: true }, [{ type: "heartbeat" }]],
+        [{ error: { message: "busy" } }, [{ type: "error", error: { message: "busy" } }]],
+        [{ start_audio: true }, [{ type: "start_audio" }]],
+        [{ streaming_data: { previous_transcription: "hello", new_transcription: "world" } }, [{ type: "streaming_data", previous: "hello", next: "world" }]],
+        [{ streaming_data: { previous_transcription: null, new_transcription: "hi" } }, [{ type: "streaming_data", previous: "", next: "hi" }]],
+        [{ streaming_data: { new_transcription: "hi" } }, [{ type: "streaming_data", previous: "", next: "hi" }]],
+        [{ transcription: "done" }, [{ type: "transcription", text: "done" }]],
+        [{ transcription: "done", stop_audio: true, disconnect: true }, [{ type: "transcription", text: "done" }, { type: "stop_audio" }, { type: "disconnect" }]],
+        [{ transcription: null, disconnect: true }, [{ type: "disconnect" }]],
+        [{ type: "custom", value: 1 }, [{ type: "unknown", kind: "custom", data: { type: "custom", value: 1 } }]],
+        [{ my_event: { a: 1 } }, [{ type: "unknown", kind: "my_event", data: { my_event: { a: 1 } } }]],
+        [{}, [{ type: "unknown", kind: undefined, data: {} }]],
+    ])("%j", (frame, expected) => {
+        expect(validateServerMessage(frame)).toEqual(expected);
+    });
+
+    it.each<[string, unknown]>([
+        ["null", null],
+        ["an array", []],
+        ["a string", "start_audio"],
+        ["a number", 1],
+        ["streaming_data that isn't an object", { streaming_data: "hi" }],
+        ["a non-string new_transcription", { streaming_data: { previous_transcription: "", new_transcription: 1 } }],
+        ["a non-string previous_transcription", { streaming_data: { previous_transcription: 2, new_transcription: "x" } }],
+        ["a non-string transcription", { transcription: 5 }],
+    ])("rejects %s", (_, frame) => {
+        const err = thrown(() => validateServerMessage(frame));
+        expect(err.code).toBe("invalid-message");
+        expect(err.frame).toEqual(frame);
+    });
+});
+
+describe("decodeServerMessage", () => {
+    it("parses and validates a text frame", () => {
+        expect(decodeServerMessage('{"start_audio":true}')).toEqual([{ type: "start_audio" }]);
+    });
+
+    it("reports invalid JSON with the raw frame", () => {
+        const err = thrown(() => decodeServerMessage("{nope"));
+        expect(err.code).toBe("invalid-json");
+        expect(err.frame).toBe("{nope");
+    });
+});
+
+describe("encodeClientMessage", () => {
+    it.each<[ClientMessage, string]>([
+        [{ type: "details", details: { requestId: "r1", lang: "en" } }, '{"requestId":"r1","lang":"en"}'],
+        [{ type: "heartbeat" }, '{"heartbeat":true}'],
+        [{ type: "disconnect" }, '{"disconnect":true}'],
+    ])("%j", (msg, expected) => {
+        expect(encodeClientMessage(msg)).toBe(expected);
+    });
+
+    it.each<[string, unknown]>([
+        ["details without a requestId", { type: "details", details: { lang: "en" } }],
+        ["details with an empty requestId", { type: "details", details: { requestId: "" } }],
+        ["an unknown type", { type: "hello" }],
+    ])("rejects %s", (_, msg) => {
+        expect(thrown(() => encodeClientMessage(msg as ClientMessage)).code).toBe("invalid-message");
+    });
+});
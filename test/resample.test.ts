@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { downmixToMono, int16ToFloat32, StreamingDownmixer, StreamingResampler } from "../src/audio/resample";
+
+const tone = (hz: number, rate: number, length: number) => Float32Array.from({ length }, (_, i) => Math.sin((2 * Math.PI * hz * i) / rate));
+
+const rms = (x: Float32Array) => Math.sqrt(x.reduce((sum, v) => sum + v * v, 0) / x.length);
+
+function resampleInChunks(resampler: StreamingResampler, input: Float32Array, chunk: number) {
+    const parts: Float32Array[] = [];
+    for (let at = 0; at < input.length; at += chunk) parts.push(resampler.process(input.subarray(at, at + chunk)));
+    parts.push(resampler.flush());
+    const out = new Float32Array(parts.reduce((n, p) => n + p.length, 0));
+    let at = 0;
+    for (const p of parts) {
+        out.set(p, at);
+        at += p.length;
+    }
+    return out;
+}
+
+describe("downmixToMono", () => {
+    it.each([
+        [[1, 3, -1, 1], 2, [2, 0]],
+        [[0.3, 0.6, 0.9], 3, [0.6]],
+        [[1, 0, 0.5, 0.5, -1, -1], 2, [0.5, 0.5, -1]],
+    ])("%j with %i channels -> %j", (input, channels, expected) => {
+        const out = downmixToMono(Float32Array.from(input), channels);
+        expect(Array.from(out)).toEqual(expected.map((v) => expect.closeTo(v, 6)));
+    });
+
+    it("returns mono input as is", () => {
+        const mono = Float32Array.from([0.1, 0.2]);
+        expect(downmixToMono(mono, 1)).toBe(mono);
+    });
+});
+
+describe("StreamingDownmixer", () => {
+    // frame f is [f, 10 + f, 20 + f], so any misalignment changes the average
+    const interleaved = Float32Array.from({ length: 24 }, (_, i) => Math.floor(i / 3) + 10 * (i % 3));
+    const expected = Array.from({ length: 8 }, (_, f) => f + 10);
+
+    it.each([[1], [2], [4], [5], [7], [24]])("%i-sample chunks keep the channels aligned", (size) => {
+        const downmixer = new StreamingDownmixer(3);
+        const out: number[] = [];
+        for (let at = 0; at < interleaved.length; at += size) out.push(...downmixer.process(interleaved.subarray(at, at + size)));
+        expect(out).toEqual(expected);
+    });
+
+    it("holds back a partial frame until the rest arrives", () => {
+        const downmixer = new StreamingDownmixer(2);
+        expect(Array.from(downmixer.process(Float32Array.from([1, 3, 5])))).toEqual([2]);
+        expect(Array.from(downmixer.process(Float32Array.from([7])))).toEqual([6]);
+    });
+
+    it("passes mono through", () => {
+        const mono = Float32Array.from([0.1, 0.2, 0.3]);
+        expect(new StreamingDownmixer(1).process(mono)).toBe(mono);
+    });
+
+    it.each([[0], [1.5], [NaN]])("rejects %d channels", (channels) => {
+        expect(() => new StreamingDownmixer(channels)).toThrow(/invalid channel count/);
+    });
+});
+
+describe("int16ToFloat32", () => {
+    it("scales to [-1, 1)", () => {
+        expect(Array.from(int16ToFloat32(Int16Array.from([-32768, 0, 16384, 32767])))).toEqual([-1, 0, 0.5, 32767 / 32768]);
+    });
+});
+
+describe("StreamingResampler", () => {
+    it("rejects non-positive rates", () => {
+        expect(() => new StreamingResampler(0, 16000)).toThrow(/invalid resample rates/);
+        expect(() => new StreamingResampler(48000, -1)).toThrow(/invalid resample rates/);
+    });
+
+    it("passes equal rates through untouched", () => {
+        const resampler = new StreamingResampler(16000, 16000);
+        const input = tone(440, 16000, 100);
+        expect(resampler.passthrough).toBe(true);
+        expect(resampler.process(input)).toBe(input);
+        expect(resampler.flush()).toHaveLength(0);
+    });
+
+    it.each([
+        [48000, 16000],
+        [44100, 16000],
+        [8000, 16000],
+    ])("%i -> %i Hz keeps the duration and is seamless across chunk boundaries", (inRate, outRate) => {
+        const input = tone(440, inRate, inRate / 2);
+        const whole = resampleInChunks(new StreamingResampler(inRate, outRate), input, input.length);
+        const chunked = resampleInChunks(new StreamingResampler(inRate, outRate), input, 333);
+
+        expect(Math.abs(whole.length - outRate / 2)).toBeLessThanOrEqual(2);
+        expect(chunked.length).toBe(whole.length);
+        for (let i = 0; i < whole.length; i++) expect(chunked[i]).toBeCloseTo(whole[i], 5);
+    });
+
+    it.each([
+        [1000, 0.707],
+        [6000, 0.707],
+        [12000, 0],
+        [20000, 0],
+    ])("48 kHz -> 16 kHz: a %i Hz tone comes out at RMS ~%f", (hz, expected) => {
+        const out = resampleInChunks(new StreamingResampler(48000, 16000), tone(hz, 48000, 48000), 480);
+        expect(rms(out.subarray(1000, out.length - 1000))).toBeCloseTo(expected, 1);
+    });
+});
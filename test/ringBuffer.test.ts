@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { RingBuffer } from "../src/audio/ringBuffer";
+
+/** capacity-4 Int16 ring after the given writes (arrays) and skips (numbers) */
+function ring(...ops: (number[] | number)[]) {
+    const buffer = new RingBuffer(Int16Array, 4);
+    const overwritten = ops.map((op) => (typeof op === "number" ? (buffer.skip(op), 0) : buffer.write(Int16Array.from(op))));
+    return { buffer, overwritten };
+}
+
+describe("RingBuffer", () => {
+    it.each<[string, (number[] | number)[], number[], number[]]>([
+        ["fills up to capacity", [[1, 2], [3, 4]], [1, 2, 3, 4], [0, 0]],
+        ["overwrites the oldest samples", [[1, 2, 3], [4, 5]], [2, 3, 4, 5], [0, 1]],
+        ["keeps only the newest samples of an oversized chunk", [[9], [1, 2, 3, 4, 5, 6]], [3, 4, 5, 6], [0, 3]],
+        ["wraps around after reads", [[1, 2, 3], 2, [4, 5, 6]], [3, 4, 5, 6], [0, 0, 0]],
+        ["overwrites across the wrap point", [[1, 2, 3], 1, [4, 5, 6, 7]], [4, 5, 6, 7], [0, 0, 2]],
+        ["restarts at index 0 once empty", [[1, 2, 3], 3, [4, 5, 6, 7]], [4, 5, 6, 7], [0, 0, 0]],
+    ])("%s", (_, ops, contents, overwritten) => {
+        const { buffer, overwritten: got } = ring(...ops);
+        expect(got).toEqual(overwritten);
+        expect(buffer.length).toBe(contents.length);
+        expect(Array.from(buffer.peek(4))).toEqual(contents);
+        expect(Array.from(buffer.read(4))).toEqual(contents);
+        expect(buffer.length).toBe(0);
+    });
+
+    it("peeks wrapped samples without consuming them", () => {
+        const { buffer } = ring([1, 2, 3], 2, [4, 5]);
+        expect(Array.from(buffer.peek(2))).toEqual([3, 4]);
+        expect(Array.from(buffer.peek(10))).toEqual([3, 4, 5]);
+        expect(buffer.length).toBe(3);
+    });
+
+    it("reads into a caller-provided array", () => {
+        const { buffer } = ring([1, 2, 3], 2, [4, 5]);
+        const into = new Int16Array(8);
+        const out = buffer.read(2, into);
+        expect(out.buffer).toBe(into.buffer);
+        expect(Array.from(out)).toEqual([3, 4]);
+        expect(Array.from(buffer.read(5))).toEqual([5]);
+    });
+
+    it.each<[string, (number[] | number)[], number[], number, number[]]>([
+        ["into free space", [[3, 4]], [1, 2], 0, [1, 2, 3, 4]],
+        ["across the start of the storage", [[9, 9, 3], 2, [4]], [1, 2], 0, [1, 2, 3, 4]],
+        ["keeping the newest samples that fit", [[3, 4, 5]], [1, 2], 1, [2, 3, 4, 5]],
+        ["into a full buffer", [[1, 2, 3, 4]], [0], 1, [1, 2, 3, 4]],
+    ])("unshift %s", (_, ops, chunk, dropped, contents) => {
+        const { buffer } = ring(...ops);
+        expect(buffer.unshift(Int16Array.from(chunk))).toBe(dropped);
+        expect(Array.from(buffer.read(4))).toEqual(contents);
+    });
+
+    it.each([
+        [undefined, [3, 4, 5, 6]],
+        [2, [5, 6]],
+        [0, []],
+        [9, [3, 4, 5, 6]],
+    ])("tail(%s) copies the newest samples, oldest first", (n, expected) => {
+        const { buffer } = ring([1, 2, 3], 2, [4, 5, 6]);
+        expect(Array.from(buffer.tail(n))).toEqual(expected);
+        expect(buffer.length).toBe(4);
+    });
+
+    it("clears, skips past the end and clamps its capacity", () => {
+        const { buffer } = ring([1, 2, 3]);
+        buffer.skip(10);
+        expect(buffer.length).toBe(0);
+        buffer.write(Int16Array.from([7]));
+        buffer.clear();
+        expect(buffer.length).toBe(0);
+        expect(buffer.read(1)).toHaveLength(0);
+        expect(new RingBuffer(Float32Array, 0).capacity).toBe(1);
+    });
+
+    it("stores Float32 samples", () => {
+        const buffer = new RingBuffer(Float32Array, 3);
+        buffer.write(Float32Array.from([0.25, -0.5, 1, 0.75]));
+        expect(Array.from(buffer.read(3))).toEqual([-0.5, 1, 0.75]);
+    });
+});
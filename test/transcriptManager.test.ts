@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TranscriptManager } from "../src/TranscriptManager";
+import type { TranscriptOptions } from "../src/types";
+
+type Update = [text: string, delta: string | undefined, final: boolean];
+
+function manager(opts: TranscriptOptions = {}) {
+    const updates: Update[] = [];
+    const transcript = new TranscriptManager(opts, (text, delta, final) => updates.push([text, delta, final]));
+    return { transcript, updates };
+}
+
+describe("TranscriptManager", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("shows interim updates at once when reveal is off", () => {
+        const { transcript, updates } = manager({ reveal: false });
+        transcript.begin("r1");
+        transcript.interim("", "hello");
+        transcript.interim("hello", " world ");
+        expect(transcript.text).toBe("hello world");
+        expect(updates).toEqual([
+            ["", undefined, false],
+            ["hello", "hello", false],
+            ["hello world", "world", false],
+        ]);
+    });
+
+    it("reveals new words one per wordIntervalMs", () => {
+        const { transcript } = manager({ reveal: { wordIntervalMs: 50 } });
+        transcript.begin("r1");
+        transcript.interim("", "one two three");
+        const seen = [transcript.text];
+        for (let i = 0; i < 3; i++) {
+            vi.advanceTimersByTime(50);
+            seen.push(transcript.text);
+        }
+        expect(seen).toEqual(["one", "one two", "one two three", "one two three"]);
+        expect(transcript.current?.text).toBe("one two three");
+    });
+
+    it("a newer update cancels the reveal in flight without going back", () => {
+        const { transcript, updates } = manager();
+        transcript.begin("r1");
+        transcript.interim("", "one two three");
+        transcript.interim("one two three", "four");
+        vi.runAllTimers();
+        const texts = updates.map(([text]) => text).filter(Boolean);
+        expect(texts).toEqual(["one", "one two three", "one two three four"]);
+    });
+
+    it.each<[string, (t: TranscriptManager) => void, string]>([
+        ["final() replaces the text", (t) => t.final("One, two."), "One, two."],
+        ["finalize() completes a reveal", (t) => t.finalize(), "one two"],
+        ["begin() finalizes the previous utterance", (t) => t.begin("r2"), "one two"],
+    ])("%s", (_, end, finalText) => {
+        const { transcript } = manager();
+        transcript.begin("r1");
+        transcript.interim("", "one two");
+        end(transcript);
+        expect(transcript.history).toHaveLength(1);
+        expect(transcript.history[0]).toMatchObject({ requestId: "r1", text: finalText, final: true });
+        expect(transcript.history[0].finalizedAt).not.toBeNull();
+    });
+
+    it("reports the final flag and ignores updates after it", () => {
+        const { transcript, updates } = manager({ reveal: false });
+        transcript.begin("r1");
+        transcript.final("done");
+        transcript.interim("done", "late");
+        expect(updates[updates.length - 1]).toEqual(["done", undefined, true]);
+        expect(transcript.text).toBe("done");
+    });
+
+    it("keeps at most maxHistory segments", () => {
+        const { transcript } = manager({ reveal: false, maxHistory: 2 });
+        for (const id of ["r1", "r2", "r3"]) {
+            transcript.begin(id);
+            transcript.final(id);
+        }
+        expect(transcript.segments.map((s) => s.requestId)).toEqual(["r2", "r3"]);
+    });
+
+    it("clear() forgets everything", () => {
+        const { transcript } = manager();
+        transcript.begin("r1");
+        transcript.interim("", "one two");
+        transcript.clear();
+        vi.runAllTimers();
+        expect(transcript.text).toBe("");
+        expect(transcript.current).toBeNull();
+        expect(transcript.segments).toHaveLength(0);
+    });
+});
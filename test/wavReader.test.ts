@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import { decodeWav, WavStreamParser, wavChunks } from "../src/audio/wavReader";
+
+type Chunk = [id: string, body: Uint8Array];
+
+const ascii = (s: string) => Uint8Array.from(s, (c) => c.charCodeAt(0));
+
+function u32(n: number) {
+    const b = new Uint8Array(4);
+    new DataView(b.buffer).setUint32(0, n, true);
+    return b;
+}
+
+function fmt(channels: number, sampleRate: number, bits: number, formatTag = 1) {
+    const b = new Uint8Array(16);
+    const view = new DataView(b.buffer);
+    view.setUint16(0, formatTag, true);
+    view.setUint16(2, channels, true);
+    view.setUint32(4, sampleRate, true);
+    view.setUint32(8, (sampleRate * channels * bits) / 8, true);
+    view.setUint16(12, (channels * bits) / 8, true);
+    view.setUint16(14, bits, true);
+    return b;
+}
+
+function concat(...parts: Uint8Array[]) {
+    const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let at = 0;
+    for (const p of parts) {
+        out.set(p, at);
+        at += p.length;
+    }
+    return out;
+}
+
+/** RIFF file from chunks (odd-sized bodies get their pad byte); `dataSize` overrides the data chunk's size field */
+function wav(chunks: Chunk[], dataSize?: number) {
+    const body = concat(
+        ...chunks.map(([id, data]) => concat(ascii(id), u32(id === "data" && dataSize !== undefined ? dataSize : data.length), data, new Uint8Array(data.length & 1)))
+    );
+    return concat(ascii("RIFF"), u32(4 + body.length), ascii("WAVE"), body);
+}
+
+function pcm16(samples: number[]) {
+    const b = new Uint8Array(samples.length * 2);
+    const view = new DataView(b.buffer);
+    samples.forEach((s, i) => view.setInt16(i * 2, s, true));
+    return b;
+}
+
+/** push `bytes` in pieces of `size` and join what comes out */
+function pushInPieces(bytes: Uint8Array, size: number) {
+    const parser = new WavStreamParser();
+    const out: number[] = [];
+    for (let at = 0; at < bytes.length; at += size) for (const part of parser.push(bytes.subarray(at, at + size))) out.push(...part);
+    parser.end();
+    return { samples: out, format: parser.format };
+}
+
+const stereo = wav([
+    ["fmt ", fmt(2, 16000, 16)],
+    ["data", pcm16([16384, -16384, 8192, -8192, 0, 32767, -32768, 0])],
+]);
+const stereoSamples = [0.5, -0.5, 0.25, -0.25, 0, 32767 / 32768, -1, 0];
+
+describe("decodeWav", () => {
+    it.each<[string, Uint8Array, number[]]>([
+        ["8-bit unsigned", Uint8Array.from([128, 192, 64, 0]), [0, 0.5, -0.5, -1]],
+        ["16-bit", pcm16([0, 16384, -32768]), [0, 0.5, -1]],
+        ["24-bit", Uint8Array.from([0, 0, 0x40, 0, 0, 0xc0]), [0.5, -0.5]],
+        ["32-bit", Uint8Array.from([0, 0, 0, 0x40, 0, 0, 0, 0xc0]), [0.5, -0.5]],
+    ])("%s PCM", (_, data, expected) => {
+        const bits = (data.length / expected.length) * 8;
+        const { samples, format } = decodeWav(wav([["fmt ", fmt(1, 8000, bits)], ["data", data]]));
+        expect(format).toEqual({ sampleRate: 8000, channels: 1, bitsPerSample: bits, float: false });
+        expect(Array.from(samples)).toEqual(expected);
+    });
+
+    it.each([
+        [32, new Uint8Array(Float32Array.from([0.25, -1]).buffer)],
+        [64, new Uint8Array(Float64Array.from([0.25, -1]).buffer)],
+    ])("%i-bit IEEE float", (bits, data) => {
+        const { samples, format } = decodeWav(wav([["fmt ", fmt(1, 44100, bits, 3)], ["data", data]]));
+        expect(format.float).toBe(true);
+        expect(Array.from(samples)).toEqual([0.25, -1]);
+    });
+
+    it("reads the sub-format of WAVE_FORMAT_EXTENSIBLE", () => {
+        const ext = concat(fmt(1, 16000, 16, 0xfffe), Uint8Array.from([22, 0, 16, 0, 4, 0, 0, 0, 1, 0]), new Uint8Array(14));
+        expect(Array.from(decodeWav(wav([["fmt ", ext], ["data", pcm16([16384])]])).samples)).toEqual([0.5]);
+    });
+
+    it("skips unknown chunks, including their pad byte", () => {
+        const file = wav([
+            ["LIST", ascii("abc")],
+            ["fmt ", fmt(2, 16000, 16)],
+            ["fact", u32(4)],
+            ["data", pcm16([16384, -16384])],
+        ]);
+        expect(Array.from(decodeWav(file).samples)).toEqual([0.5, -0.5]);
+    });
+
+    it("holds data that comes before fmt until the format is known", () => {
+        const file = wav([
+            ["data", pcm16([16384, -16384])],
+            ["fmt ", fmt(1, 16000, 16)],
+        ]);
+        expect(Array.from(decodeWav(file).samples)).toEqual([0.5, -0.5]);
+    });
+
+    it.each<[string, Uint8Array, RegExp]>([
+        ["not RIFF", concat(ascii("RIFX"), u32(4), ascii("WAVE")), /not a RIFF\/WAVE file/],
+        ["no fmt chunk", wav([["data", pcm16([1])]]), /without a fmt chunk/],
+        ["ADPCM", wav([["fmt ", fmt(1, 8000, 4, 2)]]), /unsupported WAV encoding/],
+        ["12-bit PCM", wav([["fmt ", fmt(1, 8000, 12)]]), /unsupported WAV encoding/],
+        ["a short fmt chunk", wav([["fmt ", new Uint8Array(8)]]), /too short/],
+        ["zero channels", wav([["fmt ", fmt(0, 8000, 16)]]), /no channels or sample rate/],
+    ])("rejects %s", (_, file, message) => {
+        expect(() => decodeWav(file)).toThrow(message);
+    });
+});
+
+describe("WavStreamParser", () => {
+    it.each([1, 2, 3, 5, 7, 13, 44, 45])("decodes the same samples when fed %i bytes at a time", (size) => {
+        const { samples, format } = pushInPieces(stereo, size);
+        expect(format?.channels).toBe(2);
+        expect(samples).toEqual(stereoSamples);
+    });
+
+    it("only returns whole frames and keeps the rest for the next push", () => {
+        const parser = new WavStreamParser();
+        const header = stereo.length - 16;
+        expect(parser.push(stereo.subarray(0, header + 6))).toEqual([Float32Array.from([0.5, -0.5])]);
+        expect(parser.push(stereo.subarray(header + 6, header + 9))).toEqual([Float32Array.from([0.25, -0.25])]);
+    });
+
+    it("streams a data chunk of unknown size (0xffffffff) to the end of input", () => {
+        const file = wav([["fmt ", fmt(1, 16000, 16)], ["data", pcm16([16384, -16384, 8192])]], 0xffffffff);
+        expect(pushInPieces(file, 3).samples).toEqual([0.5, -0.5, 0.25]);
+    });
+});
+
+describe("wavChunks", () => {
+    it("decodes an async byte stream", async () => {
+        async function* bytes() {
+            for (let at = 0; at < stereo.length; at += 10) yield stereo.subarray(at, at + 10);
+        }
+        const samples: number[] = [];
+        for await (const chunk of wavChunks(bytes())) {
+            expect(chunk.format.sampleRate).toBe(16000);
+            samples.push(...chunk.samples);
+        }
+        expect(samples).toEqual(stereoSamples);
+    });
+
+    it("rejects sources that don't yield bytes", async () => {
+        async function* strings() {
+            yield "RIFF" as unknown as Uint8Array;
+        }
+        await expect(wavChunks(strings()).next()).rejects.toThrow(/must yield bytes/);
+    });
+});